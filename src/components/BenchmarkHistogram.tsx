@@ -1,15 +1,47 @@
 // BenchmarkHistogram.tsx
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
-import { Bucket } from "../types";
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
+import { Bucket, ExperimentRun, Trial, VersionPerturbation } from "../types";
 import { useVersionContext } from '../context/VersionContext';
 import VersionNavigation from './VersionNavigation';
 import { TrialControls } from "@/components/trial/TrialControls"
 import { generateInitialState } from '@/lib/initialState';
-import { useTrialGeneration } from '@/lib/trialGeneration';
-import { DistributionChart, ChartDataItem, MaxValuePoint, SigmaLine, DistributionChartGuide } from './visualization/DistributionChart';
+import { DEFAULT_GENERATION_CONFIG, MAX_SAMPLES_PER_TRIAL, TrialGenerationConfig, resolveDistribution, seededTrialId, withExpectedCounts } from '@/lib/trialGeneration';
+import { TrialWorkerClient, createTrialWorkerClient } from '@/workers/trialWorkerClient';
+import { distributionReference } from '@/lib/distributions';
+import { deriveSeed } from '@/lib/random';
+import { nextRunId } from '@/lib/runs';
+import { readUrlState, writeUrlState } from '@/lib/urlState';
+import { BatchProgress, BatchResult, BatchStopRule, runTrialBatch } from '@/lib/batchRunner';
+import { getExperimentProfile, resolveGenerationConfig, toGenerationProfile } from '@/lib/profiles';
+import { BinningConfig, DEFAULT_BINNING_CONFIG, aggregateTrialBuckets, binWithStrategy, bucketQuantile, deriveTrialBuckets, getPooledSortedSamples } from '@/lib/binning';
+import { assessRunQuality } from '@/lib/quality';
+import { DEFAULT_KDE_OPTIONS, KdeOptions, createKernelDensity } from '@/lib/density';
+import { buildCdfCurve, buildPercentileSpectrum, buildQqPoints, bucketDistribution, sampleDistribution } from '@/lib/quantilePlots';
+import { BOOTSTRAP_STATISTICS, BOOTSTRAP_STATISTIC_LABELS, bootstrapRun, bootstrapTrial } from '@/lib/bootstrap';
+import { DISTRIBUTION_CHART_MODES, DistributionChart, DistributionChartMode, ChartDataItem, ConfidenceBand, MaxValuePoint, PercentileLine, SigmaLine, DistributionChartGuide } from './visualization/DistributionChart';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BinningControls } from './visualization/BinningControls';
+import { KdeControls } from './visualization/KdeControls';
 import { TrialGallery } from './trial/TrialGallery';
-
-const initialSamplesPerTrial = 20;
+import { ImportPanel } from './data/ImportPanel';
+import { ExportPanel } from './data/ExportPanel';
+import { SettingsPanel } from './settings/SettingsPanel';
+import { VersionComparison } from './comparison/VersionComparison';
+import { DistributionComparison } from './comparison/DistributionComparison';
+import { ConvergenceAnalysis } from './convergence/ConvergenceAnalysis';
+import { PowerCalculator } from './planning/PowerCalculator';
+import { SharedLinkNotice } from './data/SharedLinkNotice';
+import { VersionTrend } from './trend/VersionTrend';
+import { CoverageMatrix } from './overview/CoverageMatrix';
+import { ManagePanel } from './manage/ManagePanel';
+import { RunSelector } from './runs/RunSelector';
+import { RunComparison } from './runs/RunComparison';
+import { UndoToast } from './manage/UndoToast';
+
+// Percentiles marked on the chart for trials without samples
+const BUCKET_PERCENTILES = [0.5, 0.9, 0.99, 0.999];
+
+type Panel = 'settings' | 'manage' | 'coverage' | 'data';
 
 interface BenchmarkHistogramProps {
     initialSeed?: number;
@@ -21,51 +53,168 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
     // Get context methods and state
     const {
         versions,
+        runs,
         currentVersion,
         currentExperiment,
         currentRun,
+        isHydrated,
         initialize,
         addTrial,
+        addTrials,
         addRun,
+        updateVersion,
+        updateExperiment,
+        removeTrial,
         resetApp,
         getCurrentTrials,
-        getTrialById,
-        getRunsByVersion
+        getTrialById
     } = useVersionContext();
 
+    // A shared link can carry the seed, samples per trial and selected trial; the version,
+    // experiment and profile in it are restored by the context
+    const [initialUrlState] = useState(() => readUrlState());
+    const seed = initialUrlState.seed ?? initialSeed;
+    // Trial to select once its run is showing
+    const pendingTrialIdRef = useRef<string | undefined>(initialUrlState.trialId);
+
     // Local component state
-    const [mean] = useState<number>(100);
-    const [stdDev, setStdDev] = useState<number>(10);
-    const [tailProbability] = useState<number>(0.01);
-    const [tailShift] = useState<number>(3);
-    const [samplesPerTrial, setSamplesPerTrial] = useState<number>(initialSamplesPerTrial);
+    // The distribution itself comes from the current experiment's profile
+    const [samplesPerTrial, setSamplesPerTrial] = useState<number>(() => {
+        const fromUrl = initialUrlState.samplesPerTrial;
+        return fromUrl !== undefined && fromUrl >= 1 && fromUrl <= MAX_SAMPLES_PER_TRIAL
+            ? fromUrl
+            : DEFAULT_GENERATION_CONFIG.samplesPerTrial;
+    });
     const [isRunning, setIsRunning] = useState<boolean>(false);
     const [selectedTrialId, setSelectedTrialId] = useState<string | null>(null);
+    const [binning, setBinning] = useState<BinningConfig>(DEFAULT_BINNING_CONFIG);
+    // null follows the data: log for recorded histograms, linear otherwise
+    const [logAxisChoice, setLogAxisChoice] = useState<boolean | null>(null);
+    const [chartMode, setChartMode] = useState<DistributionChartMode>('histogram');
+    const [isKdeEnabled, setIsKdeEnabled] = useState<boolean>(false);
+    const [kdeOptions, setKdeOptions] = useState<KdeOptions>(DEFAULT_KDE_OPTIONS);
+    const [excludeFlagged, setExcludeFlagged] = useState<boolean>(false);
+    const [batchProgress, setBatchProgress] = useState<BatchProgress | null>(null);
+    const [lastBatchResult, setLastBatchResult] = useState<BatchResult | null>(null);
+    // Trial count handed to the batch runner by the sample size planner
+    const [plannedBatchCount, setPlannedBatchCount] = useState<{ count: number } | null>(null);
+    const batchAbortRef = useRef<AbortController | null>(null);
+    // Closed panels aren't rendered, so the coverage matrix and the rest don't recompute unseen
+    const [openPanels, setOpenPanels] = useState<ReadonlySet<Panel>>(() => new Set());
+    const togglePanel = (panel: Panel) => {
+        setOpenPanels(current => {
+            const next = new Set(current);
+            if (!next.delete(panel)) next.add(panel);
+            return next;
+        });
+    };
+
+    // The current experiment's profile, as edited in the settings panel
+    const profileConfig = useMemo((): TrialGenerationConfig => currentExperiment
+        ? { ...getExperimentProfile(currentExperiment), samplesPerTrial }
+        : { ...DEFAULT_GENERATION_CONFIG, samplesPerTrial },
+        [currentExperiment, samplesPerTrial]);
+
+    // The full configuration new trials are generated with, including the version's perturbation
+    const generationConfig = useMemo((): TrialGenerationConfig => currentExperiment
+        ? resolveGenerationConfig(currentExperiment, currentVersion, samplesPerTrial)
+        : profileConfig,
+        [currentExperiment, currentVersion, samplesPerTrial, profileConfig]);
+
+    const handleConfigChange = useCallback((config: TrialGenerationConfig) => {
+        setSamplesPerTrial(config.samplesPerTrial);
+        if (currentExperiment) {
+            updateExperiment(currentExperiment.id, { profile: toGenerationProfile(config) });
+        }
+    }, [currentExperiment, updateExperiment]);
 
-    // Get trial generation hook
-    const { generateTrial } = useTrialGeneration({
-        mean,
-        stdDev,
-        tailShift,
-        tailProbability,
-        samplesPerTrial,
-    });
+    const handlePerturbationChange = useCallback((perturbation: VersionPerturbation | undefined) => {
+        if (currentVersion) {
+            updateVersion(currentVersion.id, { perturbation });
+        }
+    }, [currentVersion, updateVersion]);
+
+    // Trials are generated and binned in a worker so large trials don't block the UI
+    const trialWorkerRef = useRef<TrialWorkerClient | null>(null);
+    useEffect(() => {
+        const client = createTrialWorkerClient();
+        trialWorkerRef.current = client;
+        return () => {
+            client.terminate();
+            trialWorkerRef.current = null;
+        };
+    }, []);
+
+    // Location/scale of the active distribution, used for the μ/σ reference lines
+    const reference = useMemo(() =>
+        distributionReference(resolveDistribution(generationConfig)),
+        [generationConfig]);
 
     // Initialize app on first load
     useEffect(() => {
-        // Only initialize if versions are empty
+        // Wait for persisted data to load, then only initialize if versions are empty
+        if (!isHydrated) return;
         if (!versions || versions.length === 0) {
-            console.log('🚀 Initializing app with seed:', initialSeed);
-            const initialState = generateInitialState(initialSeed);
+            console.log('🚀 Initializing app with seed:', seed);
+            const initialState = generateInitialState(seed);
             initialize(initialState);
         }
-    }, [initialSeed, initialize, versions]);
+    }, [seed, initialize, isHydrated, versions]);
 
-    // When version changes, deselect any selected trial to show all trials
+    // When version or run changes, deselect any selected trial to show all trials
     useEffect(() => {
-        console.log('Version changed, showing all trials by default');
+        console.log('Version or run changed, showing all trials by default');
         setSelectedTrialId(null);
-    }, [currentVersion]);
+    }, [currentVersion?.id, currentRun?.id]);
+
+    // Get or create the run new trials for the current version and experiment go into.
+    // The current run is the selected one, or the latest when none is selected.
+    const getTargetRun = useCallback((): ExperimentRun | null => {
+        if (!currentVersion || !currentExperiment) return null;
+        if (currentRun) return currentRun;
+
+        const newRun: ExperimentRun = {
+            id: nextRunId(runs, currentVersion.id, currentExperiment.id),
+            versionId: currentVersion.id,
+            experimentId: currentExperiment.id,
+            trials: [],
+            timestamp: Date.now()
+        };
+
+        console.log('Creating new run:', newRun.id);
+        addRun(newRun);
+        return newRun;
+    }, [currentVersion, currentExperiment, currentRun, runs, addRun]);
+
+    // Stream IDs in use anywhere. A merged run holds trials generated under other run IDs, and
+    // a new run can reuse the ID of one deleted after merging, so checking one run isn't enough.
+    const allTrialIds = useCallback(() =>
+        new Set(runs.flatMap(r => r.trials.map(t => t.id))),
+        [runs]);
+
+    // Generate the trial at `index` within `run`. Each trial draws from a stream keyed by the seed,
+    // its run and its position in the run, so the same seed and actions reproduce the same data.
+    const generateRunTrial = useCallback(async (run: ExperimentRun, index: number, takenIds: Set<string>): Promise<Trial> => {
+        const worker = trialWorkerRef.current;
+        if (!worker) throw new Error('Trial worker is not running');
+
+        // After trials are deleted, positions at the end of the run can belong to streams that are
+        // still in use. Those streams' IDs are taken, so skip ahead rather than duplicate their data.
+        // (Word IDs can also collide by chance, which skips a stream harmlessly.)
+        let streamIndex = index;
+        while (takenIds.has(seededTrialId(deriveSeed(seed, run.id, streamIndex)))) streamIndex++;
+
+        const generatedTrial = await worker.generate(generationConfig, run.versionId, deriveSeed(seed, run.id, streamIndex));
+        const id = generatedTrial.id;
+        takenIds.add(id);
+
+        if (!generatedTrial.buckets || generatedTrial.buckets.length === 0) {
+            console.error('Trial has no buckets', generatedTrial);
+            throw new Error('Generated trial has no buckets');
+        }
+
+        return { ...generatedTrial, id, runId: run.id };
+    }, [seed, generationConfig]);
 
     // Function to run a new trial
     const runTrial = useCallback(async (): Promise<void> => {
@@ -84,51 +233,12 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
 
         setIsRunning(true);
         try {
-            console.log('Generating trial for version:', currentVersion.id, 'and experiment:', currentExperiment.id);
-
-            // Get or create a run for this version and experiment
-            let run = currentRun;
-            if (!run) {
-                // No active run, need to check if one exists or create a new one
-                const existingRuns = getRunsByVersion(currentVersion.id)
-                    .filter(r => r.experimentId === currentExperiment.id);
-
-                if (existingRuns.length > 0) {
-                    // Use the most recent run
-                    run = existingRuns.reduce((latest, r) =>
-                        r.timestamp > latest.timestamp ? r : latest, existingRuns[0]);
-                } else {
-                    // Create a new run
-                    const newRun = {
-                        id: `run-${currentVersion.id}-${currentExperiment.id}-${Date.now()}`,
-                        versionId: currentVersion.id,
-                        experimentId: currentExperiment.id,
-                        trials: [],
-                        timestamp: Date.now()
-                    };
-
-                    console.log('Creating new run:', newRun.id);
-                    addRun(newRun);
-                    run = newRun;
-                }
-            }
-
-            // Generate a new trial
-            const generatedTrial = generateTrial(currentVersion.id);
-
-            // Create our actual trial with the run ID
-            const newTrial = {
-                ...generatedTrial,
-                runId: run.id
-            };
+            const run = getTargetRun();
+            if (!run) return;
 
+            const newTrial = await generateRunTrial(run, run.trials.length, allTrialIds());
             console.log('Generated trial:', newTrial.id, 'for run:', run.id);
 
-            if (!newTrial?.buckets || newTrial.buckets.length === 0) {
-                console.error('Trial has no buckets', newTrial);
-                throw new Error('Generated trial has no buckets');
-            }
-
             // Add the trial to the run using context action
             addTrial(run.id, newTrial);
 
@@ -138,16 +248,70 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
         } catch (error) {
             console.error('Error in runTrial:', error);
         } finally {
-            setTimeout(() => setIsRunning(false), 500);
+            setIsRunning(false);
+        }
+    }, [currentVersion, currentExperiment, currentRun, isRunning, getTargetRun, generateRunTrial, allTrialIds, addTrial]);
+
+    // Run many trials in one action and apply them to the run with a single dispatch
+    const runBatch = useCallback(async (rule: BatchStopRule): Promise<void> => {
+        if (!currentVersion || !currentExperiment || isRunning) return;
+
+        const controller = new AbortController();
+        batchAbortRef.current = controller;
+        setIsRunning(true);
+        setLastBatchResult(null);
+        setBatchProgress({ completed: 0, total: rule.kind === 'count' ? rule.count : rule.maxTrials, ciWidth: null });
+
+        try {
+            const run = getTargetRun();
+            if (!run) return;
+
+            console.log('🧪 Starting batch for run:', run.id, rule);
+            const takenIds = allTrialIds();
+            const result = await runTrialBatch({
+                rule,
+                generate: index => generateRunTrial(run, run.trials.length + index, takenIds),
+                existingTrials: run.trials,
+                signal: controller.signal,
+                onProgress: setBatchProgress,
+            });
+
+            console.log('🧪 Batch finished:', {
+                trials: result.trials.length,
+                cancelled: result.cancelled,
+                error: result.error,
+                ciWidth: result.ciWidth
+            });
+            addTrials(run.id, result.trials);
+            setLastBatchResult(result);
+            // Show the aggregate of the whole run
+            setSelectedTrialId(null);
+        } catch (error) {
+            console.error('Error in runBatch:', error);
+        } finally {
+            batchAbortRef.current = null;
+            setBatchProgress(null);
+            setIsRunning(false);
         }
-    }, [currentVersion, currentExperiment, currentRun, isRunning, generateTrial, addTrial, addRun, getRunsByVersion]);
+    }, [currentVersion, currentExperiment, isRunning, getTargetRun, generateRunTrial, allTrialIds, addTrials]);
+
+    const cancelBatch = useCallback(() => {
+        console.log('🛑 Cancelling batch');
+        batchAbortRef.current?.abort();
+    }, []);
+
+    const deleteTrial = useCallback((trialId: string) => {
+        if (!currentRun) return;
+        removeTrial(currentRun.id, trialId);
+        if (trialId === selectedTrialId) setSelectedTrialId(null);
+    }, [currentRun, selectedTrialId, removeTrial]);
 
     // Reset app to initial state
     const reset = useCallback((): void => {
-        console.log('Resetting app with seed:', initialSeed);
-        const initialState = generateInitialState(initialSeed);
+        console.log('Resetting app with seed:', seed);
+        const initialState = generateInitialState(seed);
         resetApp(initialState);
-    }, [initialSeed, resetApp]);
+    }, [seed, resetApp]);
 
     // Generate sigma lines for the chart
     const generateSigmaLines = useCallback((mean: number, stdDev: number): SigmaLine[] => [
@@ -160,8 +324,8 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
 
     // Memoized sigma lines
     const sigmaLines = useMemo(() =>
-        generateSigmaLines(mean, stdDev),
-        [mean, stdDev, generateSigmaLines]
+        generateSigmaLines(reference.location, reference.scale),
+        [reference, generateSigmaLines]
     );
 
     // Get current trials
@@ -170,6 +334,25 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
         [getCurrentTrials]
     );
 
+    // Select the trial from a shared link once its run is the one showing
+    useEffect(() => {
+        const pendingTrialId = pendingTrialIdRef.current;
+        if (pendingTrialId && currentTrials.some(t => t.id === pendingTrialId)) {
+            console.log('🔗 Restoring selected trial from URL:', pendingTrialId);
+            pendingTrialIdRef.current = undefined;
+            setSelectedTrialId(pendingTrialId);
+        }
+    }, [currentTrials]);
+
+    // Keep the shareable URL in step with the state this component owns
+    useEffect(() => {
+        writeUrlState({
+            seed,
+            samplesPerTrial,
+            trialId: selectedTrialId ?? undefined
+        });
+    }, [seed, samplesPerTrial, selectedTrialId]);
+
     // Get currently selected trial
     const selectedTrial = useMemo(() => {
         if (!selectedTrialId) return null;
@@ -184,6 +367,17 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
         return trial;
     }, [selectedTrialId, getTrialById]);
 
+    // Outlier checks over the current run's trials
+    const runQuality = useMemo(() => assessRunQuality(currentTrials), [currentTrials]);
+
+    // Trials the run's aggregate is built from. Excluding every trial would leave nothing to
+    // show, so a run whose trials are all flagged is shown whole.
+    const aggregatedTrials = useMemo(() => {
+        if (!excludeFlagged) return currentTrials;
+        const unflagged = currentTrials.filter(t => !runQuality.flaggedTrialIds.has(t.id));
+        return unflagged.length > 0 ? unflagged : currentTrials;
+    }, [currentTrials, excludeFlagged, runQuality]);
+
     // Helper text based on trial selection
     const displayMode = useMemo(() => {
         if (selectedTrialId) {
@@ -193,23 +387,92 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                 type: 'single'
             };
         }
+        const excludedCount = currentTrials.length - aggregatedTrials.length;
+        const allFlagged = excludeFlagged && currentTrials.length > 0 && runQuality.flaggedTrialIds.size === currentTrials.length;
         return {
-            text: `Showing aggregated data for all ${currentTrials.length} trials`,
+            text: excludedCount > 0
+                ? `Showing aggregated data for ${aggregatedTrials.length} of ${currentTrials.length} trials (${excludedCount} flagged excluded)`
+                : `Showing aggregated data for all ${currentTrials.length} trials${allFlagged ? ' (every trial is flagged, so none were excluded)' : ''}`,
             type: 'all'
         };
-    }, [selectedTrialId, currentTrials]);
+    }, [selectedTrialId, currentTrials, aggregatedTrials, excludeFlagged, runQuality]);
 
-    // Generate max value points for the chart
+    // Generate max value points for the chart, for the aggregated trials plus a selected one
     const maxValuePoints = useMemo((): MaxValuePoint[] => {
-        if (!currentTrials.length) return [];
+        const trials = currentTrials.filter(t => aggregatedTrials.includes(t) || t.id === selectedTrialId);
+        if (!trials.length) return [];
 
-        return currentTrials.map((trial, idx) => ({
+        return trials.map((trial, idx) => ({
             x: trial.maxValue,
             y: 0,
-            opacity: 0.3 + (0.7 * (idx / Math.max(1, currentTrials.length - 1))),
+            opacity: 0.3 + (0.7 * (idx / Math.max(1, trials.length - 1))),
             trialId: trial.id
         }));
-    }, [currentTrials]);
+    }, [currentTrials, aggregatedTrials, selectedTrialId]);
+
+    // Bootstrap confidence bands for the selected trial, or for the run's aggregated trials
+    const confidenceBands = useMemo((): ConfidenceBand[] => {
+        const summary = selectedTrial
+            ? bootstrapTrial(selectedTrial)
+            : currentRun ? bootstrapRun(currentRun, aggregatedTrials) : null;
+        if (!summary) return [];
+
+        return BOOTSTRAP_STATISTICS.map(statistic => ({
+            statistic,
+            label: BOOTSTRAP_STATISTIC_LABELS[statistic],
+            lower: summary[statistic].lower,
+            upper: summary[statistic].upper
+        }));
+    }, [selectedTrial, currentRun, aggregatedTrials]);
+
+    // A selected trial is always shown, flagged or not
+    const shownTrials = useMemo(() =>
+        selectedTrial ? [selectedTrial] : aggregatedTrials,
+        [selectedTrial, aggregatedTrials]
+    );
+    const hasSamples = shownTrials.length > 0 && shownTrials.every(t => t.samples && t.samples.length > 0);
+    // Recorded HdrHistograms are shown in their own log-linear buckets, on a log axis by default
+    const histogramSource = useMemo(() =>
+        shownTrials.length > 0 && shownTrials.every(t => t.bucketSource?.kind === 'hdr') ? shownTrials[0].bucketSource : undefined,
+        [shownTrials]
+    );
+    const logScale = logAxisChoice ?? histogramSource !== undefined;
+    // Imported trials have no model, so there is nothing to expect
+    const hasModel = useMemo(() =>
+        shownTrials.some(t => (t.buckets || []).some(b => b.expected > 0)),
+        [shownTrials]
+    );
+
+    // Buckets of the selected trial or all trials
+    const shownBuckets = useMemo((): Bucket[] => {
+        if (!currentVersion || shownTrials.length === 0) return [];
+
+        // Re-bin raw samples with the chosen strategy. Trials without samples (legacy or
+        // recorded histograms) can only be shown in their stored buckets.
+        if (hasSamples) {
+            console.log('Re-binning samples with strategy:', binning.strategy);
+            const pooled = getPooledSortedSamples(shownTrials, 'histogram');
+            const buckets = binWithStrategy(pooled, binning);
+            // Expected counts are per trial, like the stored ones
+            return hasModel
+                ? withExpectedCounts(buckets, resolveDistribution(generationConfig), pooled.length / shownTrials.length)
+                : buckets;
+        }
+        if (selectedTrial) {
+            console.log('Using selected trial buckets');
+            return deriveTrialBuckets(selectedTrial);
+        }
+        console.log('Using all trials buckets');
+        return aggregateTrialBuckets(shownTrials);
+    }, [currentVersion, shownTrials, hasSamples, hasModel, selectedTrial, binning, generationConfig]);
+
+    // Kernel density of the pooled samples; trials without samples have nothing to smooth
+    const kernelDensity = useMemo(() =>
+        isKdeEnabled && hasSamples && chartMode === 'histogram'
+            ? createKernelDensity(getPooledSortedSamples(shownTrials, 'histogram'), kdeOptions)
+            : null,
+        [isKdeEnabled, hasSamples, chartMode, shownTrials, kdeOptions]
+    );
 
     // Calculate chart data from buckets
     const [chartData, domain] = useMemo((): [ChartDataItem[], [number, number]] => {
@@ -217,65 +480,30 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
             selectedTrialId,
             hasSelectedTrial: !!selectedTrial,
             trialsCount: currentTrials.length,
-            hasBuckets: selectedTrial && selectedTrial.buckets ? selectedTrial.buckets.length > 0 : false
+            bucketCount: shownBuckets.length
         });
 
-        if (!currentVersion) {
-            return [[], [0, 1]];
-        }
-
-        // Get buckets from selected trial or all trials
-        let buckets: Bucket[] = [];
-        if (selectedTrial && selectedTrial.buckets && selectedTrial.buckets.length > 0) {
-            console.log('Using selected trial buckets');
-            buckets = selectedTrial.buckets;
-        } else if (currentTrials.length > 0) {
-            console.log('Using all trials buckets');
-
-            // We need to aggregate buckets from multiple trials
-            // First, get all buckets from all trials
-            const allBuckets = currentTrials
-                .filter(t => t.buckets && t.buckets.length > 0)
-                .map(t => t.buckets)
-                .flat();
-
-            // Create a map to group buckets by their range
-            const bucketMap = new Map<string, Bucket>();
-
-            // Process each bucket
-            allBuckets.forEach(bucket => {
-                const key = `${bucket.start}-${bucket.end}`;
-
-                if (bucketMap.has(key)) {
-                    // If we already have a bucket with this range, add to the observed count
-                    const existingBucket = bucketMap.get(key)!;
-                    existingBucket.observed += bucket.observed;
-                    // Keep the expected count the same (it's the same for all trials)
-                } else {
-                    // Add new bucket to the map
-                    bucketMap.set(key, { ...bucket });
-                }
-            });
-
-            // Convert map back to array
-            buckets = Array.from(bucketMap.values());
-
-            console.log('Aggregated buckets count:', buckets.length);
-        }
-
-        if (buckets.length === 0) {
+        if (shownBuckets.length === 0) {
             console.log('No buckets available for charting');
             return [[], [0, 1]];
         }
 
-        // Calculate domain from buckets
-        const computedDomain: [number, number] = [
-            Math.min(...buckets.map(b => b.start)),
-            Math.max(...buckets.map(b => b.end))
-        ];
+        // Calculate domain from buckets; a log axis starts at the first positive edge
+        const positiveBuckets = shownBuckets.filter(b => b.value > 0);
+        const computedDomain: [number, number] = logScale && positiveBuckets.length > 0
+            ? [
+                Math.min(...positiveBuckets.map(b => b.start > 0 ? b.start : b.value)),
+                Math.max(...positiveBuckets.map(b => b.end))
+            ]
+            : [
+                Math.min(...shownBuckets.map(b => b.start)),
+                Math.max(...shownBuckets.map(b => b.end))
+            ];
+
+        const totalObserved = shownBuckets.reduce((sum, b) => sum + b.observed, 0);
 
         // Convert buckets to chart data format
-        const computedData = buckets.map((bucket, index) => {
+        const computedData = shownBuckets.map((bucket, index) => {
             const centerValue = (bucket.start + bucket.end) / 2;
             // Add a tiny fractional offset based on array position
             // Small enough to not affect visual display but ensure unique coordinates
@@ -286,13 +514,51 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                 value: centerValue + uniqueOffset,
                 expected: bucket.expected || 0 + uniqueOffset,
                 observed: bucket.observed || 0 + 2 * uniqueOffset,
-                range: `${bucket.start.toFixed(1)} - ${bucket.end.toFixed(1)}`,
-                sigma: ((bucket.value - mean) / stdDev).toFixed(2)
+                range: bucket.kind === 'underflow'
+                    ? `< ${bucket.end.toFixed(1)} (underflow)`
+                    : bucket.kind === 'overflow'
+                        ? `> ${bucket.start.toFixed(1)} (overflow)`
+                        : `${bucket.start.toFixed(1)} - ${bucket.end.toFixed(1)}`,
+                sigma: ((bucket.value - reference.location) / reference.scale).toFixed(2),
+                // Density × samples × width is the count the curve predicts for this bucket;
+                // the open-ended underflow/overflow buckets have no width to scale by
+                ...(kernelDensity && !bucket.kind ? {
+                    kde: kernelDensity.density(centerValue) * totalObserved * (bucket.end - bucket.start)
+                } : {})
             };
         });
 
         return [computedData, computedDomain];
-    }, [currentTrials, currentVersion, selectedTrial, selectedTrialId, mean, stdDev]);
+    }, [shownBuckets, currentTrials, selectedTrial, selectedTrialId, reference, logScale, kernelDensity]);
+
+    // Without samples the bootstrap only sees an approximation, so mark percentiles read
+    // directly off the buckets (HdrHistogram's own convention for recorded histograms)
+    const percentileLines = useMemo((): PercentileLine[] =>
+        hasSamples || shownBuckets.length === 0
+            ? []
+            : BUCKET_PERCENTILES.map(q => ({
+                label: `p${Number((100 * q).toFixed(1))}`,
+                value: bucketQuantile(shownBuckets, q, histogramSource)
+            })),
+        [hasSamples, shownBuckets, histogramSource]
+    );
+
+    // CDF, percentile spectrum and Q-Q data, only computed for the mode on screen
+    const quantileViews = useMemo(() => {
+        if (chartMode === 'histogram' || shownBuckets.length === 0) return {};
+        const observed = hasSamples
+            ? sampleDistribution(getPooledSortedSamples(shownTrials, 'histogram'))
+            : bucketDistribution(shownBuckets, histogramSource);
+        const model = hasModel ? resolveDistribution(generationConfig) : null;
+        switch (chartMode) {
+            case 'cdf':
+                return { cdfData: buildCdfCurve(observed, model, logScale) };
+            case 'spectrum':
+                return { spectrumData: buildPercentileSpectrum(observed, model) };
+            case 'qq':
+                return { qqData: model ? buildQqPoints(observed, model) : [] };
+        }
+    }, [chartMode, shownBuckets, hasSamples, shownTrials, histogramSource, hasModel, generationConfig, logScale]);
 
     // Debug logging for important state changes
     useEffect(() => {
@@ -320,6 +586,8 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                 </p>
             </div>
 
+            <SharedLinkNotice />
+
             <div className="mb-4 p-4 bg-gray-50 rounded-lg border border-gray-200 shadow-sm">
                 <div className="flex flex-col md:flex-row justify-between items-center gap-4">
                     <div className="w-full md:w-2/3">
@@ -327,16 +595,33 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                     </div>
                     <div className="flex items-center space-x-2 md:justify-end">
                         <button
-                            onClick={() => {
-                                const settingsPanel = document.getElementById('settings-panel');
-                                if (settingsPanel) {
-                                    settingsPanel.classList.toggle('hidden');
-                                }
-                            }}
+                            onClick={() => togglePanel('settings')}
+                            aria-expanded={openPanels.has('settings')}
                             className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
                         >
                             Settings
                         </button>
+                        <button
+                            onClick={() => togglePanel('manage')}
+                            aria-expanded={openPanels.has('manage')}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            Manage
+                        </button>
+                        <button
+                            onClick={() => togglePanel('coverage')}
+                            aria-expanded={openPanels.has('coverage')}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            Coverage
+                        </button>
+                        <button
+                            onClick={() => togglePanel('data')}
+                            aria-expanded={openPanels.has('data')}
+                            className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                            Data
+                        </button>
                         <button
                             onClick={reset}
                             className="px-4 py-2 bg-gray-500 text-white rounded hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
@@ -347,52 +632,58 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                 </div>
             </div>
 
-            <div id="settings-panel" className="mb-6 p-4 bg-gray-100 rounded-lg shadow-inner hidden">
-                <h3 className="text-lg font-medium mb-4">Application Settings</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                    <div>
-                        <label className="block text-sm font-medium mb-1" htmlFor="samplesPerTrial">
-                            Samples per Trial: {samplesPerTrial}
-                        </label>
-                        <input
-                            id="samplesPerTrial"
-                            type="range"
-                            min="5"
-                            max="100"
-                            step="5"
-                            value={samplesPerTrial}
-                            onChange={(e) => setSamplesPerTrial(Number(e.target.value))}
-                            className="w-full"
-                        />
-                        <p className="text-sm text-gray-500 mt-1">Controls the number of data points in each trial</p>
-                    </div>
-                    <div>
-                        <label className="block text-sm font-medium mb-1" htmlFor="stdDev">
-                            Standard Deviation (σ): {stdDev}
-                        </label>
-                        <input
-                            id="stdDev"
-                            type="range"
-                            min="1"
-                            max="30"
-                            step="1"
-                            value={stdDev}
-                            onChange={(e) => setStdDev(Number(e.target.value))}
-                            className="w-full"
-                        />
-                        <p className="text-sm text-gray-500 mt-1">Controls the spread of the distribution</p>
+            {openPanels.has('settings') && (
+                <div id="settings-panel" className="mb-6 p-4 bg-gray-100 rounded-lg shadow-inner">
+                    <h3 className="text-lg font-medium mb-4">Application Settings</h3>
+                    <SettingsPanel
+                        config={profileConfig}
+                        experimentName={currentExperiment?.name ?? null}
+                        onConfigChange={handleConfigChange}
+                        versionName={currentVersion?.name ?? null}
+                        perturbation={currentVersion?.perturbation}
+                        onPerturbationChange={handlePerturbationChange}
+                    />
+                </div>
+            )}
+
+            {openPanels.has('manage') && (
+                <div id="manage-panel" className="mb-6 p-4 bg-gray-100 rounded-lg shadow-inner">
+                    <h3 className="text-lg font-medium mb-4">Versions, Experiments and Runs</h3>
+                    <ManagePanel seed={seed} />
+                </div>
+            )}
+
+            {openPanels.has('coverage') && (
+                <div id="coverage-panel" className="mb-6 p-4 bg-gray-100 rounded-lg shadow-inner">
+                    <h3 className="text-lg font-medium mb-4">Version × Experiment Coverage</h3>
+                    <CoverageMatrix />
+                </div>
+            )}
+
+            {openPanels.has('data') && (
+                <div id="data-panel" className="mb-6 p-4 bg-gray-100 rounded-lg shadow-inner">
+                    <h3 className="text-lg font-medium mb-4">Data</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <ImportPanel />
+                        <ExportPanel />
                     </div>
                 </div>
-            </div>
+            )}
 
             <div className="space-y-6">
                 <div className="w-full p-6 bg-white rounded-lg shadow">
                     <div className="space-y-6">
                         {/* Trial Controls and Cards */}
                         <div>
+                            <RunSelector disabled={isRunning} />
                             <TrialControls
                                 onRunTrial={runTrial}
+                                onRunBatch={runBatch}
+                                onCancelBatch={cancelBatch}
                                 isRunning={isRunning}
+                                batchProgress={batchProgress}
+                                lastBatchResult={lastBatchResult}
+                                plannedCount={plannedBatchCount}
                             />
 
                             {currentVersion && (
@@ -400,13 +691,24 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                                     trials={currentTrials}
                                     selectedTrialId={selectedTrialId}
                                     onTrialSelect={setSelectedTrialId}
+                                    onTrialDelete={deleteTrial}
+                                    quality={runQuality}
                                 />
                             )}
                         </div>
 
                         <div>
                             <div className="flex justify-between items-center mb-2">
-                                <h3 className="text-lg font-medium">Distribution Analysis</h3>
+                                <div className="flex items-center gap-3">
+                                    <h3 className="text-lg font-medium">Distribution Analysis</h3>
+                                    <Tabs value={chartMode} onValueChange={(value) => setChartMode(value as DistributionChartMode)}>
+                                        <TabsList>
+                                            {(Object.keys(DISTRIBUTION_CHART_MODES) as DistributionChartMode[]).map(mode => (
+                                                <TabsTrigger key={mode} value={mode}>{DISTRIBUTION_CHART_MODES[mode]}</TabsTrigger>
+                                            ))}
+                                        </TabsList>
+                                    </Tabs>
+                                </div>
                                 <div className={`px-3 py-1 rounded-full text-sm ${displayMode.type === 'single'
                                     ? 'bg-blue-100 text-blue-800'
                                     : 'bg-gray-100 text-gray-800'
@@ -414,19 +716,87 @@ const BenchmarkHistogram: React.FC<BenchmarkHistogramProps> = ({
                                     {displayMode.text}
                                 </div>
                             </div>
+                            <div className="mb-2 flex flex-wrap items-center gap-4">
+                                {chartMode !== 'histogram' ? null : hasSamples || shownTrials.length === 0 ? (
+                                    <>
+                                        <BinningControls config={binning} onConfigChange={setBinning} />
+                                        <KdeControls
+                                            enabled={isKdeEnabled}
+                                            onEnabledChange={setIsKdeEnabled}
+                                            options={kdeOptions}
+                                            onOptionsChange={setKdeOptions}
+                                            bandwidth={kernelDensity?.bandwidth ?? null}
+                                        />
+                                    </>
+                                ) : (
+                                    <span className="text-sm text-muted-foreground">
+                                        {histogramSource
+                                            ? `Recorded HdrHistogram buckets (${histogramSource.significantDigits} significant digits)`
+                                            : 'Stored buckets; these trials have no raw samples to re-bin'}
+                                    </span>
+                                )}
+                                <label className="flex items-center gap-1 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={logScale}
+                                        onChange={(e) => setLogAxisChoice(e.target.checked)}
+                                    />
+                                    Log x-axis
+                                </label>
+                                <label
+                                    className="flex items-center gap-1 text-sm"
+                                    title="Leave trials with quality warnings out of the aggregated view"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={excludeFlagged}
+                                        onChange={(e) => setExcludeFlagged(e.target.checked)}
+                                        disabled={runQuality.flaggedTrialIds.size === 0 && !excludeFlagged}
+                                    />
+                                    Exclude flagged trials ({runQuality.flaggedTrialIds.size})
+                                </label>
+                            </div>
                             <DistributionChart
                                 chartData={chartData}
                                 domain={domain}
                                 maxValuePoints={maxValuePoints}
                                 sigmaLines={sigmaLines}
                                 selectedTrialId={selectedTrialId}
+                                confidenceBands={confidenceBands}
+                                percentileLines={percentileLines}
+                                logScale={logScale}
+                                mode={chartMode}
+                                {...quantileViews}
                             />
                         </div>
 
                         <DistributionChartGuide />
+
+                        <RunComparison />
+
+                        <ConvergenceAnalysis />
+
+                        <PowerCalculator
+                            profile={profileConfig}
+                            experimentName={currentExperiment?.name ?? null}
+                            samplesPerTrial={samplesPerTrial}
+                            seed={seed}
+                            onApplyPlan={(plan) => {
+                                setSamplesPerTrial(plan.samplesPerTrial);
+                                setPlannedBatchCount({ count: plan.trials });
+                            }}
+                        />
+
+                        <VersionTrend />
+
+                        <VersionComparison />
+
+                        <DistributionComparison />
                     </div>
                 </div>
             </div>
+
+            <UndoToast />
         </div>
     );
 };
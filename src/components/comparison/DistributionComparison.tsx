@@ -0,0 +1,90 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { getComparableVersions } from '@/lib/comparison';
+import { poolSortedSamples } from '@/lib/binning';
+import { cachedForList } from '@/lib/statsCache';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ComparisonChart, ComparisonLayout, ComparisonSeries } from '../visualization/ComparisonChart';
+
+// Distinct series colors, assigned by version order
+const SERIES_COLORS = ['#2563EB', '#DC2626', '#059669', '#D97706', '#7C3AED', '#DB2777', '#0891B2', '#4B5563'];
+
+export const DistributionComparison: React.FC = () => {
+    const { versions, runs, currentExperiment } = useVersionContext();
+    const [layout, setLayout] = useState<ComparisonLayout>('overlay');
+    const [selectedVersionIds, setSelectedVersionIds] = useState<string[]>([]);
+
+    const comparableVersions = useMemo(() =>
+        currentExperiment ? getComparableVersions(versions, runs, currentExperiment.id) : [],
+        [versions, runs, currentExperiment]
+    );
+
+    // Start with every comparable version selected whenever the set of versions changes
+    const comparableVersionKey = comparableVersions.map(v => v.id).join(',');
+    useEffect(() => {
+        setSelectedVersionIds(comparableVersionKey ? comparableVersionKey.split(',') : []);
+    }, [comparableVersionKey]);
+
+    const series = useMemo((): ComparisonSeries[] => {
+        if (!currentExperiment) return [];
+        return comparableVersions
+            .map((version, index) => ({ version, color: SERIES_COLORS[index % SERIES_COLORS.length] }))
+            .filter(({ version }) => selectedVersionIds.includes(version.id))
+            .map(({ version, color }) => {
+                const versionRuns = runs.filter(r => r.versionId === version.id && r.experimentId === currentExperiment.id);
+                return {
+                    id: version.id,
+                    label: version.name,
+                    color,
+                    samples: cachedForList(`distribution-comparison:${currentExperiment.id}:${version.id}`, versionRuns, () =>
+                        poolSortedSamples(versionRuns.flatMap(r => r.trials))),
+                };
+            });
+    }, [comparableVersions, selectedVersionIds, runs, currentExperiment]);
+
+    const toggleVersion = (versionId: string) => {
+        setSelectedVersionIds(ids =>
+            ids.includes(versionId) ? ids.filter(id => id !== versionId) : [...ids, versionId]
+        );
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex justify-between items-center">
+                    <CardTitle>Distribution Comparison{currentExperiment ? ` — ${currentExperiment.name}` : ''}</CardTitle>
+                    <Tabs value={layout} onValueChange={(value) => setLayout(value as ComparisonLayout)}>
+                        <TabsList>
+                            <TabsTrigger value="overlay">Overlay</TabsTrigger>
+                            <TabsTrigger value="small-multiples">Small multiples</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-3">
+                    {comparableVersions.map((version, index) => (
+                        <label key={version.id} className="flex items-center gap-1 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={selectedVersionIds.includes(version.id)}
+                                onChange={() => toggleVersion(version.id)}
+                            />
+                            <span
+                                className="inline-block w-3 h-3 rounded"
+                                style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+                            />
+                            {version.name}
+                        </label>
+                    ))}
+                </div>
+                <ComparisonChart series={series} layout={layout} />
+                <p className="text-xs text-muted-foreground">
+                    Histograms are normalized to probability densities over a shared range, so versions with
+                    different numbers of trials or samples can be compared directly.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
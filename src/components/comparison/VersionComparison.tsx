@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import {
+    ComparisonBasis,
+    ComparisonVerdict,
+    DEFAULT_COMPARISON_OPTIONS,
+    compareVersions,
+    getComparableVersions
+} from '@/lib/comparison';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+
+export const VERDICT_STYLES: Record<ComparisonVerdict, { label: string; className: string }> = {
+    'regression': { label: 'Regression', className: 'bg-red-100 text-red-800' },
+    'improvement': { label: 'Improvement', className: 'bg-green-100 text-green-800' },
+    'no-change': { label: 'No significant change', className: 'bg-gray-100 text-gray-800' },
+    'insufficient-data': { label: 'Insufficient data', className: 'bg-yellow-100 text-yellow-800' },
+};
+
+const formatPValue = (p: number | undefined): string => {
+    if (p === undefined || Number.isNaN(p)) return '—';
+    return p < 0.0001 ? '< 0.0001' : p.toFixed(4);
+};
+
+export const VersionComparison: React.FC = () => {
+    const { versions, runs, currentVersion, currentExperiment } = useVersionContext();
+
+    const comparableVersions = useMemo(() =>
+        currentExperiment ? getComparableVersions(versions, runs, currentExperiment.id) : [],
+        [versions, runs, currentExperiment]
+    );
+
+    const [baselineVersionId, setBaselineVersionId] = useState<string>('');
+    const [candidateVersionId, setCandidateVersionId] = useState<string>('');
+    const [basis, setBasis] = useState<ComparisonBasis>(DEFAULT_COMPARISON_OPTIONS.basis);
+    const [alpha, setAlpha] = useState<number>(DEFAULT_COMPARISON_OPTIONS.alpha);
+    const [thresholdPercent, setThresholdPercent] = useState<number>(DEFAULT_COMPARISON_OPTIONS.threshold * 100);
+
+    // Default to comparing the current version against the one before it. Keyed on the
+    // version ids so adding trials doesn't reset a selection the user made.
+    const comparableVersionKey = comparableVersions.map(v => v.id).join(',');
+    const currentVersionId = currentVersion?.id;
+    useEffect(() => {
+        const versionIds = comparableVersionKey ? comparableVersionKey.split(',') : [];
+        if (versionIds.length === 0) return;
+        const currentIndex = versionIds.findIndex(id => id === currentVersionId);
+        const candidateIndex = currentIndex === -1 ? versionIds.length - 1 : currentIndex;
+        setCandidateVersionId(versionIds[candidateIndex]);
+        setBaselineVersionId(versionIds[Math.max(0, candidateIndex - 1)]);
+    }, [comparableVersionKey, currentVersionId]);
+
+    const result = useMemo(() => {
+        if (!currentExperiment || !baselineVersionId || !candidateVersionId) return null;
+        return compareVersions(runs, currentExperiment.id, baselineVersionId, candidateVersionId, {
+            ...DEFAULT_COMPARISON_OPTIONS,
+            basis,
+            alpha,
+            threshold: thresholdPercent / 100,
+        });
+    }, [runs, currentExperiment, baselineVersionId, candidateVersionId, basis, alpha, thresholdPercent]);
+
+    const versionName = (versionId: string) =>
+        comparableVersions.find(v => v.id === versionId)?.name ?? versionId;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Version Comparison{currentExperiment ? ` — ${currentExperiment.name}` : ''}</CardTitle>
+            </CardHeader>
+            <CardContent>
+                {comparableVersions.length < 2 ? (
+                    <p className="text-sm text-gray-500">
+                        At least two versions need runs of this experiment to compare them.
+                    </p>
+                ) : (
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Baseline</label>
+                                <Select value={baselineVersionId} onValueChange={setBaselineVersionId}>
+                                    <SelectTrigger><SelectValue placeholder="Baseline version" /></SelectTrigger>
+                                    <SelectContent>
+                                        {comparableVersions.map(v => (
+                                            <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Candidate</label>
+                                <Select value={candidateVersionId} onValueChange={setCandidateVersionId}>
+                                    <SelectTrigger><SelectValue placeholder="Candidate version" /></SelectTrigger>
+                                    <SelectContent>
+                                        {comparableVersions.map(v => (
+                                            <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Compare</label>
+                                <Select value={basis} onValueChange={(value) => setBasis(value as ComparisonBasis)}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="samples">All samples</SelectItem>
+                                        <SelectItem value="trial-means">Trial means</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Significance (α)</label>
+                                <Select value={String(alpha)} onValueChange={(value) => setAlpha(Number(value))}>
+                                    <SelectTrigger><SelectValue /></SelectTrigger>
+                                    <SelectContent>
+                                        {[0.1, 0.05, 0.01, 0.001].map(a => (
+                                            <SelectItem key={a} value={String(a)}>{a}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium mb-1" htmlFor="comparison-threshold">
+                                    Threshold (%)
+                                </label>
+                                <input
+                                    id="comparison-threshold"
+                                    type="number"
+                                    min="0"
+                                    step="0.5"
+                                    value={thresholdPercent}
+                                    onChange={(e) => setThresholdPercent(Math.max(0, Number(e.target.value)))}
+                                    className="w-full h-9 px-3 rounded-md border border-input text-sm"
+                                />
+                            </div>
+                        </div>
+
+                        {result && (
+                            <div className="space-y-3">
+                                <div className="flex items-center gap-3">
+                                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${VERDICT_STYLES[result.verdict].className}`}>
+                                        {VERDICT_STYLES[result.verdict].label}
+                                    </span>
+                                    <span className="text-sm text-gray-600">
+                                        {versionName(result.candidateVersionId)} vs {versionName(result.baselineVersionId)}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                                    <div>
+                                        <div className="text-muted-foreground">Baseline mean (n={result.baselineCount})</div>
+                                        <div className="font-semibold">{result.baselineMean.toFixed(2)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Candidate mean (n={result.candidateCount})</div>
+                                        <div className="font-semibold">{result.candidateMean.toFixed(2)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Relative change</div>
+                                        <div className="font-semibold">
+                                            {Number.isFinite(result.relativeChange)
+                                                ? `${result.relativeChange >= 0 ? '+' : ''}${(result.relativeChange * 100).toFixed(2)}%`
+                                                : '—'}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Effect size (Hedges' g)</div>
+                                        <div className="font-semibold">
+                                            {Number.isFinite(result.effectSize) ? result.effectSize.toFixed(3) : '—'}
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Mann-Whitney U p-value</div>
+                                        <div className="font-semibold">{formatPValue(result.mannWhitney?.pValue)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Welch's t-test p-value</div>
+                                        <div className="font-semibold">{formatPValue(result.welch?.pValue)}</div>
+                                    </div>
+                                    <div>
+                                        <div className="text-muted-foreground">Rank-biserial correlation</div>
+                                        <div className="font-semibold">
+                                            {result.mannWhitney ? result.mannWhitney.rankBiserial.toFixed(3) : '—'}
+                                        </div>
+                                    </div>
+                                </div>
+                                <p className="text-xs text-muted-foreground">
+                                    A change is flagged when the Mann-Whitney U test is significant at α and the mean
+                                    moves by at least the threshold. Higher values are treated as worse.
+                                </p>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -0,0 +1,90 @@
+import React, { useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { ConvergenceEstimate, computeConvergence, findStabilizationIndex } from '@/lib/convergence';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CONVERGENCE_COLORS, ConvergenceAxis, ConvergenceChart, StabilizationMarker } from '../visualization/ConvergenceChart';
+
+const ESTIMATE_LABELS: Record<ConvergenceEstimate, string> = {
+    runningMean: 'Mean',
+    runningMax: 'Max',
+};
+
+export const ConvergenceAnalysis: React.FC = () => {
+    const { currentRun } = useVersionContext();
+    const [xAxis, setXAxis] = useState<ConvergenceAxis>('trials');
+    const [tolerancePercent, setTolerancePercent] = useState<number>(1);
+
+    const points = useMemo(() =>
+        currentRun ? computeConvergence(currentRun.trials) : [],
+        [currentRun]
+    );
+
+    const isToleranceValid = Number.isFinite(tolerancePercent) && tolerancePercent > 0;
+
+    const markers = useMemo((): StabilizationMarker[] => {
+        if (!isToleranceValid || points.length < 2) return [];
+        const tolerance = tolerancePercent / 100;
+
+        return (Object.keys(ESTIMATE_LABELS) as ConvergenceEstimate[]).flatMap(estimate => {
+            const index = findStabilizationIndex(points, estimate, tolerance);
+            if (index === null) return [];
+            const finalValue = points[points.length - 1][estimate];
+            const bound = Math.abs(finalValue) * tolerance;
+            return [{
+                label: `${ESTIMATE_LABELS[estimate]} stable`,
+                color: CONVERGENCE_COLORS[estimate],
+                point: points[index],
+                band: [finalValue - bound, finalValue + bound] as [number, number],
+            }];
+        });
+    }, [points, tolerancePercent, isToleranceValid]);
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex justify-between items-center">
+                    <CardTitle>Convergence</CardTitle>
+                    <Tabs value={xAxis} onValueChange={(value) => setXAxis(value as ConvergenceAxis)}>
+                        <TabsList>
+                            <TabsTrigger value="trials">By trials</TabsTrigger>
+                            <TabsTrigger value="samples">By samples</TabsTrigger>
+                        </TabsList>
+                    </Tabs>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <label className="flex items-center gap-2 text-sm">
+                    Stable once within ±
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={Number.isFinite(tolerancePercent) ? tolerancePercent : ''}
+                        onChange={(e) => setTolerancePercent(e.target.value === '' ? NaN : Number(e.target.value))}
+                        className={`w-20 h-8 px-2 rounded border ${isToleranceValid ? 'border-gray-300' : 'border-red-500'}`}
+                        aria-label="Stability tolerance in percent"
+                    />
+                    % of the final value
+                </label>
+
+                <ConvergenceChart points={points} xAxis={xAxis} markers={markers} />
+
+                {markers.length > 0 && (
+                    <ul className="text-sm text-gray-700 space-y-1">
+                        {markers.map(marker => (
+                            <li key={marker.label}>
+                                <span className="font-medium" style={{ color: marker.color }}>{marker.label}:</span>{' '}
+                                stays within ±{tolerancePercent}% from trial {marker.point.trials} ({marker.point.samples.toLocaleString()} samples) on
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <p className="text-xs text-muted-foreground">
+                    Estimates pool every sample from the first trial up to each point. The CI width uses the normal
+                    approximation for the mean, so it shrinks roughly with the square root of the sample count.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
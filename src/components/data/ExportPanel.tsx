@@ -0,0 +1,67 @@
+import React, { useCallback } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import {
+    createDatasetExport,
+    createRunExport,
+    createTrialSummaryCsv,
+    downloadTextFile
+} from '@/lib/exporter';
+
+// File-name friendly timestamp, e.g. 2024-02-08T00-00-00
+const fileTimestamp = () => new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+export const ExportPanel: React.FC = () => {
+    const { versions, experiments, runs, currentRun } = useVersionContext();
+
+    const exportDataset = useCallback(() => {
+        const document = createDatasetExport({ versions, experiments, runs });
+        console.log('📤 Exporting dataset with', runs.length, 'runs');
+        downloadTextFile(
+            `benchmark-dataset-${fileTimestamp()}.json`,
+            JSON.stringify(document, null, 2),
+            'application/json'
+        );
+    }, [versions, experiments, runs]);
+
+    const exportCurrentRun = useCallback(() => {
+        if (!currentRun) return;
+        const document = createRunExport(currentRun, { versions, experiments, runs });
+        console.log('📤 Exporting run:', currentRun.id);
+        downloadTextFile(
+            `benchmark-run-${currentRun.id}.json`,
+            JSON.stringify(document, null, 2),
+            'application/json'
+        );
+    }, [currentRun, versions, experiments, runs]);
+
+    const exportTrialSummaries = useCallback(() => {
+        console.log('📤 Exporting trial summaries CSV');
+        downloadTextFile(
+            `benchmark-trials-${fileTimestamp()}.csv`,
+            createTrialSummaryCsv({ versions, experiments, runs }),
+            'text/csv'
+        );
+    }, [versions, experiments, runs]);
+
+    const buttonClass = "px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50";
+
+    return (
+        <div>
+            <h4 className="text-sm font-medium mb-2">Export</h4>
+            <p className="text-sm text-gray-500 mb-3">
+                JSON exports can be imported back without loss. The CSV has one row of summary statistics per trial.
+            </p>
+            <div className="flex flex-wrap gap-2">
+                <button onClick={exportDataset} disabled={runs.length === 0} className={buttonClass}>
+                    Full dataset (JSON)
+                </button>
+                <button onClick={exportCurrentRun} disabled={!currentRun} className={buttonClass}>
+                    Current run (JSON)
+                </button>
+                <button onClick={exportTrialSummaries} disabled={runs.length === 0} className={buttonClass}>
+                    Trial summaries (CSV)
+                </button>
+            </div>
+        </div>
+    );
+};
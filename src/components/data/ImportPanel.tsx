@@ -0,0 +1,156 @@
+import React, { useCallback, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { CSV_COLUMNS, ImportResult, parseImportFile } from '@/lib/importer';
+
+type ImportMode = 'merge' | 'replace';
+
+// How many issues to list before collapsing the rest into a count
+const MAX_LISTED_ISSUES = 50;
+
+export const ImportPanel: React.FC = () => {
+    const {
+        versions,
+        experiments,
+        runs,
+        currentVersion,
+        currentExperiment,
+        initialize,
+        addVersion,
+        addExperiment,
+        addRun,
+        addTrial,
+    } = useVersionContext();
+
+    const [mode, setMode] = useState<ImportMode>('merge');
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+
+    const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        console.log('📥 Parsing import file:', file.name);
+        setFileName(file.name);
+        setStatus(null);
+        try {
+            // Histogram logs don't name a version or experiment, so they go to the current ones
+            setResult(await parseImportFile(file, { version: currentVersion, experiment: currentExperiment }));
+        } catch (error) {
+            console.error('❌ Failed to read import file:', error);
+            setResult(null);
+            setStatus(`Could not read ${file.name}: ${(error as Error).message}`);
+        }
+    }, [currentVersion, currentExperiment]);
+
+    const applyImport = useCallback(() => {
+        if (!result || result.issues.length > 0) return;
+        const { data } = result;
+
+        if (mode === 'replace') {
+            initialize(data);
+        } else {
+            const versionIds = new Set(versions.map(v => v.id));
+            const experimentIds = new Set(experiments.map(e => e.id));
+            const existingRuns = new Map(runs.map(r => [r.id, r]));
+
+            data.experiments
+                .filter(e => !experimentIds.has(e.id))
+                .forEach(addExperiment);
+            data.versions
+                .filter(v => !versionIds.has(v.id))
+                .forEach(addVersion);
+
+            data.runs.forEach(run => {
+                const existingRun = existingRuns.get(run.id);
+                if (!existingRun) {
+                    addRun(run);
+                    return;
+                }
+                // Append trials to a run we already have, skipping ones already present
+                const existingTrialIds = new Set(existingRun.trials.map(t => t.id));
+                run.trials
+                    .filter(t => !existingTrialIds.has(t.id))
+                    .forEach(trial => addTrial(run.id, trial));
+            });
+        }
+
+        setStatus(`Imported ${result.trialCount} trials (${result.sampleCount} samples) from ${fileName}`);
+        setResult(null);
+    }, [result, mode, fileName, versions, experiments, runs, initialize, addVersion, addExperiment, addRun, addTrial]);
+
+    return (
+        <div>
+            <h4 className="text-sm font-medium mb-2">Import Benchmark Results</h4>
+            <p className="text-sm text-gray-500 mb-3">
+                JSON with <code>versions</code>, <code>experiments</code> and <code>runs</code> (each trial
+                carrying raw <code>samples</code>), CSV with columns <code>{CSV_COLUMNS.join(',')}</code>, or
+                HdrHistogram <code>.hlog</code> interval logs and encoded histograms. Histograms are imported into the
+                current version and experiment (tagged intervals into an experiment per tag), one trial per interval.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-4 mb-3">
+                <input
+                    type="file"
+                    accept=".json,.csv,.hlog,.hdr,application/json,text/csv"
+                    onChange={handleFileChange}
+                    className="text-sm"
+                />
+                <label className="flex items-center gap-1 text-sm">
+                    <input
+                        type="radio"
+                        name="import-mode"
+                        checked={mode === 'merge'}
+                        onChange={() => setMode('merge')}
+                    />
+                    Merge into current data
+                </label>
+                <label className="flex items-center gap-1 text-sm">
+                    <input
+                        type="radio"
+                        name="import-mode"
+                        checked={mode === 'replace'}
+                        onChange={() => setMode('replace')}
+                    />
+                    Replace current data
+                </label>
+            </div>
+
+            {result && result.issues.length > 0 && (
+                <div className="p-3 rounded bg-red-50 border border-red-200 text-sm">
+                    <p className="font-medium text-red-700 mb-1">
+                        {fileName} has {result.issues.length} problem{result.issues.length === 1 ? '' : 's'}; nothing was imported.
+                    </p>
+                    <ul className="max-h-48 overflow-y-auto font-mono text-xs text-red-600 space-y-0.5">
+                        {result.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                            <li key={index}>{issue.location}: {issue.message}</li>
+                        ))}
+                    </ul>
+                    {result.issues.length > MAX_LISTED_ISSUES && (
+                        <p className="text-xs text-red-600 mt-1">
+                            …and {result.issues.length - MAX_LISTED_ISSUES} more
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {result && result.issues.length === 0 && (
+                <div className="flex items-center justify-between p-3 rounded bg-blue-50 border border-blue-200 text-sm">
+                    <span>
+                        {fileName}: {result.data.versions.length} versions, {result.data.experiments.length} experiments,{' '}
+                        {result.data.runs.length} runs, {result.trialCount} trials
+                    </span>
+                    <button
+                        onClick={applyImport}
+                        className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                        {mode === 'replace' ? 'Replace Data' : 'Merge Data'}
+                    </button>
+                </div>
+            )}
+
+            {status && <p className="text-sm text-gray-600 mt-2">{status}</p>}
+        </div>
+    );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { generateInitialState } from '@/lib/initialState';
+
+// Shown when a shared link's selection isn't in the local data, e.g. because the recipient
+// already had data from another seed. The link's seed regenerates the sender's starting data.
+export const SharedLinkNotice: React.FC = () => {
+    const { unresolvedLink, loadLinkedDataset, dismissUnresolvedLink } = useVersionContext();
+
+    if (!unresolvedLink) return null;
+
+    const { url, afterDatasetLoad } = unresolvedLink;
+    const missing = [
+        url.versionId && `version ${url.versionId}`,
+        url.experimentId && `experiment ${url.experimentId}`,
+        url.runId && `run ${url.runId}`,
+        url.trialId && `trial ${url.trialId}`,
+    ].filter(Boolean).join(', ');
+    const canLoad = url.seed !== undefined && !afterDatasetLoad;
+
+    return (
+        <div role="alert" className="mb-4 p-3 flex flex-wrap items-center gap-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-900">
+            <span className="flex-1">
+                {afterDatasetLoad
+                    ? `The linked selection (${missing}) isn't in the dataset generated from seed ${url.seed}; it was probably added after the link's data was generated.`
+                    : `The linked selection (${missing}) could not be found in your local data.`}
+                {canLoad && ` Loading the link's dataset (seed ${url.seed}) replaces your local data.`}
+            </span>
+            {canLoad && (
+                <button
+                    onClick={() => loadLinkedDataset(generateInitialState(url.seed))}
+                    className="px-3 py-1 bg-amber-600 text-white rounded hover:bg-amber-700"
+                >
+                    Load linked dataset
+                </button>
+            )}
+            <button
+                onClick={dismissUnresolvedLink}
+                className="px-3 py-1 bg-white border border-amber-300 rounded hover:bg-amber-100"
+            >
+                Keep my data
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Experiment } from '@/types';
+
+export type ExperimentFormValues = Pick<Experiment, 'name' | 'description' | 'parameters' | 'color'>;
+
+interface ExperimentFormProps {
+    experiment?: Experiment;           // Edited experiment; omitted when creating one
+    takenNames: string[];              // Names of the other experiments
+    onSubmit: (values: ExperimentFormValues) => void;
+    onCancel: () => void;
+}
+
+type ParameterKey = keyof Experiment['parameters'];
+
+const PARAMETER_FIELDS: { key: ParameterKey; label: string; step: number; max?: number }[] = [
+    { key: 'cpuThreads', label: 'CPU threads', step: 1 },
+    { key: 'memoryPressure', label: 'Memory pressure', step: 0.1, max: 1 },
+    { key: 'ioRate', label: 'I/O rate', step: 0.1, max: 1 },
+    { key: 'networkTraffic', label: 'Network traffic', step: 0.1, max: 1 },
+];
+
+const DEFAULT_COLOR = '#808080';
+
+export const ExperimentForm: React.FC<ExperimentFormProps> = ({ experiment, takenNames, onSubmit, onCancel }) => {
+    const [name, setName] = useState(experiment?.name ?? '');
+    const [description, setDescription] = useState(experiment?.description ?? '');
+    const [color, setColor] = useState(experiment?.color ?? DEFAULT_COLOR);
+    // Blank fields are left out of the parameters
+    const [parameters, setParameters] = useState<Record<ParameterKey, string>>(() => ({
+        cpuThreads: experiment?.parameters.cpuThreads?.toString() ?? '',
+        memoryPressure: experiment?.parameters.memoryPressure?.toString() ?? '',
+        ioRate: experiment?.parameters.ioRate?.toString() ?? '',
+        networkTraffic: experiment?.parameters.networkTraffic?.toString() ?? '',
+    }));
+
+    const trimmedName = name.trim();
+    const nameError = trimmedName === ''
+        ? 'Enter a name'
+        : takenNames.some(n => n.toLowerCase() === trimmedName.toLowerCase())
+            ? 'Another experiment already has this name'
+            : null;
+
+    const parameterErrors = Object.fromEntries(PARAMETER_FIELDS.map(({ key, max }) => {
+        const raw = parameters[key].trim();
+        if (raw === '') return [key, null];
+        const value = Number(raw);
+        const valid = Number.isFinite(value) && value >= 0 && (max === undefined || value <= max);
+        return [key, valid ? null : max === undefined ? 'Must be 0 or more' : `Must be between 0 and ${max}`];
+    })) as Record<ParameterKey, string | null>;
+
+    const hasErrors = !!nameError || Object.values(parameterErrors).some(Boolean);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (hasErrors) return;
+
+        const parsed: Experiment['parameters'] = {};
+        PARAMETER_FIELDS.forEach(({ key }) => {
+            const raw = parameters[key].trim();
+            if (raw !== '') parsed[key] = Number(raw);
+        });
+        onSubmit({ name: trimmedName, description: description.trim(), parameters: parsed, color });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-3 bg-white rounded border space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-3">
+                <label className="block text-sm">
+                    <span className="font-medium">Name</span>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className={`w-full h-9 px-2 mt-1 rounded border ${nameError ? 'border-red-500' : 'border-gray-300'}`}
+                    />
+                    {nameError && <span className="text-xs text-red-600">{nameError}</span>}
+                </label>
+                <label className="block text-sm">
+                    <span className="font-medium">Color</span>
+                    <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => setColor(e.target.value)}
+                        className="block w-16 h-9 mt-1 rounded border border-gray-300"
+                    />
+                </label>
+            </div>
+            <label className="block text-sm">
+                <span className="font-medium">Description</span>
+                <textarea
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={2}
+                    className="w-full px-2 py-1 mt-1 rounded border border-gray-300"
+                />
+            </label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {PARAMETER_FIELDS.map(({ key, label, step, max }) => (
+                    <label key={key} className="block text-sm">
+                        <span className="font-medium">{label}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={max}
+                            step={step}
+                            value={parameters[key]}
+                            onChange={(e) => setParameters(current => ({ ...current, [key]: e.target.value }))}
+                            className={`w-full h-9 px-2 mt-1 rounded border ${parameterErrors[key] ? 'border-red-500' : 'border-gray-300'}`}
+                        />
+                        {parameterErrors[key] && <span className="text-xs text-red-600">{parameterErrors[key]}</span>}
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+                The parameters set the experiment's generation profile unless it has been customized in the settings panel.
+            </p>
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={hasErrors}
+                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                >
+                    {experiment ? 'Save experiment' : 'Create experiment'}
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
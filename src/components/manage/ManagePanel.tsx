@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { Experiment } from '@/types';
+import { compareVersionOrder } from '@/lib/trend';
+import { deriveExperimentProfile } from '@/lib/profiles';
+import { nextExperimentId } from '@/lib/runs';
+import { nextVersionId, parseVersionId } from '@/lib/versionId';
+import { VersionForm, VersionFormValues } from './VersionForm';
+import { ExperimentForm, ExperimentFormValues } from './ExperimentForm';
+
+// Which form is open: a new item or the ID of the item being edited
+type Editing = { kind: 'version' | 'experiment'; id: string | null } | null;
+
+const rowClassName = 'flex items-center justify-between gap-2 px-3 py-2 bg-white rounded border';
+const linkButtonClassName = 'px-2 py-1 text-xs rounded border border-gray-300 bg-white hover:bg-gray-50';
+const deleteButtonClassName = 'px-2 py-1 text-xs rounded border border-red-200 text-red-700 bg-white hover:bg-red-50';
+
+interface ManagePanelProps {
+    // App seed; new version SHAs and experiment IDs are derived from it so runs stay reproducible
+    seed: number;
+}
+
+export const ManagePanel: React.FC<ManagePanelProps> = ({ seed }) => {
+    const {
+        versions,
+        experiments,
+        runs,
+        currentVersion,
+        currentExperiment,
+        addVersion,
+        addExperiment,
+        updateVersion,
+        updateExperiment,
+        retagVersion,
+        removeVersion,
+        removeExperiment,
+        removeRun,
+        getRunsByVersion,
+        getRunsByExperiment
+    } = useVersionContext();
+    const [editing, setEditing] = useState<Editing>(null);
+
+    const sortedVersions = useMemo(() => [...versions].sort(compareVersionOrder), [versions]);
+    const currentVersionRuns = currentVersion ? getRunsByVersion(currentVersion.id) : [];
+
+    const tagsExcept = (versionId: string | null) => versions
+        .filter(v => v.id !== versionId)
+        .flatMap(v => parseVersionId(v.id).tag ?? []);
+
+    const saveVersion = (versionId: string | null, values: VersionFormValues) => {
+        if (versionId === null) {
+            console.log('➕ Creating version:', values.name);
+            addVersion({ id: nextVersionId(versions.map(v => v.id), seed, values.tag), name: values.name, timestamp: Date.now() });
+        } else {
+            updateVersion(versionId, { name: values.name });
+            if (values.tag !== parseVersionId(versionId).tag) retagVersion(versionId, values.tag);
+        }
+        setEditing(null);
+    };
+
+    const saveExperiment = (experiment: Experiment | null, values: ExperimentFormValues) => {
+        if (experiment === null) {
+            console.log('➕ Creating experiment:', values.name);
+            addExperiment({ ...values, id: nextExperimentId(experiments, values.name), profile: deriveExperimentProfile(values.parameters) });
+        } else {
+            // Follow the new parameters unless the profile was customized away from the old ones
+            const followsParameters = !experiment.profile ||
+                JSON.stringify(experiment.profile) === JSON.stringify(deriveExperimentProfile(experiment.parameters));
+            updateExperiment(experiment.id, {
+                ...values,
+                ...(followsParameters ? { profile: deriveExperimentProfile(values.parameters) } : {})
+            });
+        }
+        setEditing(null);
+    };
+
+    const editingVersion = editing?.kind === 'version' && editing.id
+        ? versions.find(v => v.id === editing.id)
+        : undefined;
+    const editingExperiment = editing?.kind === 'experiment' && editing.id
+        ? experiments.find(e => e.id === editing.id)
+        : undefined;
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Versions</h4>
+                    <button
+                        onClick={() => setEditing({ kind: 'version', id: null })}
+                        className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                    >
+                        New version
+                    </button>
+                </div>
+                {editing?.kind === 'version' && editing.id === null && (
+                    <VersionForm
+                        takenTags={tagsExcept(null)}
+                        onSubmit={(values) => saveVersion(null, values)}
+                        onCancel={() => setEditing(null)}
+                    />
+                )}
+                {sortedVersions.map(version => {
+                    const { tag } = parseVersionId(version.id);
+                    const runCount = getRunsByVersion(version.id).length;
+                    return editingVersion?.id === version.id ? (
+                        <VersionForm
+                            key={version.id}
+                            version={version}
+                            takenTags={tagsExcept(version.id)}
+                            onSubmit={(values) => saveVersion(version.id, values)}
+                            onCancel={() => setEditing(null)}
+                        />
+                    ) : (
+                        <div key={version.id} className={rowClassName}>
+                            <div className="min-w-0">
+                                <div className="text-sm font-medium truncate">
+                                    {version.name}
+                                    {tag && <span className="ml-2 text-xs font-mono text-gray-500">v{tag}</span>}
+                                    {version.id === currentVersion?.id && <span className="ml-2 text-xs text-blue-700">current</span>}
+                                </div>
+                                <div className="text-xs text-gray-500">{runCount} {runCount === 1 ? 'run' : 'runs'}</div>
+                            </div>
+                            <div className="flex gap-1">
+                                <button onClick={() => setEditing({ kind: 'version', id: version.id })} className={linkButtonClassName}>Edit</button>
+                                <button
+                                    onClick={() => removeVersion(version.id)}
+                                    // With no versions left the app would start over from generated data
+                                    disabled={versions.length === 1}
+                                    title={versions.length === 1 ? 'The last version cannot be deleted' : undefined}
+                                    className={`${deleteButtonClassName} disabled:opacity-50`}
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Experiments</h4>
+                    <button
+                        onClick={() => setEditing({ kind: 'experiment', id: null })}
+                        className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                    >
+                        New experiment
+                    </button>
+                </div>
+                {editing?.kind === 'experiment' && editing.id === null && (
+                    <ExperimentForm
+                        takenNames={experiments.map(e => e.name)}
+                        onSubmit={(values) => saveExperiment(null, values)}
+                        onCancel={() => setEditing(null)}
+                    />
+                )}
+                {experiments.map(experiment => {
+                    const runCount = getRunsByExperiment(experiment.id).length;
+                    return editingExperiment?.id === experiment.id ? (
+                        <ExperimentForm
+                            key={experiment.id}
+                            experiment={experiment}
+                            takenNames={experiments.filter(e => e.id !== experiment.id).map(e => e.name)}
+                            onSubmit={(values) => saveExperiment(experiment, values)}
+                            onCancel={() => setEditing(null)}
+                        />
+                    ) : (
+                        <div key={experiment.id} className={rowClassName}>
+                            <div className="flex items-center gap-2 min-w-0">
+                                <span className="inline-block w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: experiment.color }} />
+                                <div className="min-w-0">
+                                    <div className="text-sm font-medium truncate">
+                                        {experiment.name}
+                                        {experiment.id === currentExperiment?.id && <span className="ml-2 text-xs text-blue-700">current</span>}
+                                    </div>
+                                    <div className="text-xs text-gray-500 truncate">
+                                        {runCount} {runCount === 1 ? 'run' : 'runs'}{experiment.description ? ` · ${experiment.description}` : ''}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="flex gap-1">
+                                <button onClick={() => setEditing({ kind: 'experiment', id: experiment.id })} className={linkButtonClassName}>Edit</button>
+                                <button onClick={() => removeExperiment(experiment.id)} className={deleteButtonClassName}>Delete</button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="space-y-2 lg:col-span-2">
+                <h4 className="font-medium">Runs of {currentVersion?.name ?? 'the current version'}</h4>
+                {currentVersionRuns.length === 0 ? (
+                    <p className="text-sm text-gray-500">No runs yet. Running a trial creates one.</p>
+                ) : (
+                    currentVersionRuns.map(run => {
+                        const experiment = experiments.find(e => e.id === run.experimentId);
+                        return (
+                            <div key={run.id} className={rowClassName}>
+                                <div className="min-w-0">
+                                    <div className="text-sm font-medium truncate">
+                                        {experiment?.name ?? run.experimentId}
+                                        <span className="ml-2 text-xs font-mono text-gray-500">{run.id}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {run.trials.length} {run.trials.length === 1 ? 'trial' : 'trials'} · {new Date(run.timestamp).toLocaleString()}
+                                    </div>
+                                </div>
+                                <button onClick={() => removeRun(run.id)} className={deleteButtonClassName}>Delete</button>
+                            </div>
+                        );
+                    })
+                )}
+                <p className="text-xs text-muted-foreground">
+                    Deleting a version or experiment also deletes its runs. {runs.length} runs in total.
+                </p>
+            </div>
+        </div>
+    );
+};
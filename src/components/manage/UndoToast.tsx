@@ -0,0 +1,32 @@
+import React, { useEffect } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+
+// How long the undo offer stays up
+const UNDO_TIMEOUT_MS = 8000;
+
+export const UndoToast: React.FC = () => {
+    const { lastRemoval, undoRemoval, dismissRemoval } = useVersionContext();
+
+    useEffect(() => {
+        if (!lastRemoval) return;
+        const handle = setTimeout(dismissRemoval, UNDO_TIMEOUT_MS);
+        return () => clearTimeout(handle);
+    }, [lastRemoval, dismissRemoval]);
+
+    if (!lastRemoval) return null;
+
+    return (
+        <div
+            role="status"
+            className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white text-sm rounded-lg shadow-lg"
+        >
+            <span>{lastRemoval.description}</span>
+            <button onClick={undoRemoval} className="font-semibold text-blue-300 hover:text-blue-200">
+                Undo
+            </button>
+            <button onClick={dismissRemoval} className="text-gray-400 hover:text-gray-200" aria-label="Dismiss">
+                ✕
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { TargetVersion } from '@/types';
+import { isValidSemanticVersion, parseVersionId } from '@/lib/versionId';
+
+export interface VersionFormValues {
+    name: string;
+    tag: string | undefined;
+}
+
+interface VersionFormProps {
+    version?: TargetVersion;           // Edited version; omitted when creating one
+    takenTags: string[];               // Tags of the other versions
+    onSubmit: (values: VersionFormValues) => void;
+    onCancel: () => void;
+}
+
+export const VersionForm: React.FC<VersionFormProps> = ({ version, takenTags, onSubmit, onCancel }) => {
+    const [name, setName] = useState(version?.name ?? '');
+    const [tag, setTag] = useState(version ? parseVersionId(version.id).tag ?? '' : '');
+
+    const trimmedTag = tag.trim();
+    const nameError = name.trim() === '' ? 'Enter a name' : null;
+    const tagError = trimmedTag === ''
+        ? null
+        : !isValidSemanticVersion(trimmedTag)
+            ? 'Use the form x.y or x.y.z'
+            : takenTags.includes(trimmedTag)
+                ? 'Another version already has this tag'
+                : null;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (nameError || tagError) return;
+        onSubmit({ name: name.trim(), tag: trimmedTag || undefined });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-3 bg-white rounded border space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="block text-sm">
+                    <span className="font-medium">Name</span>
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className={`w-full h-9 px-2 mt-1 rounded border ${nameError ? 'border-red-500' : 'border-gray-300'}`}
+                    />
+                    {nameError && <span className="text-xs text-red-600">{nameError}</span>}
+                </label>
+                <label className="block text-sm">
+                    <span className="font-medium">Semver tag (optional)</span>
+                    <input
+                        value={tag}
+                        onChange={(e) => setTag(e.target.value)}
+                        placeholder="1.2.0"
+                        className={`w-full h-9 px-2 mt-1 rounded border font-mono ${tagError ? 'border-red-500' : 'border-gray-300'}`}
+                    />
+                    {tagError && <span className="text-xs text-red-600">{tagError}</span>}
+                </label>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                The tag orders versions in navigation and the trend view.
+            </p>
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={!!nameError || !!tagError}
+                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                >
+                    {version ? 'Save version' : 'Create version'}
+                </button>
+                <button
+                    type="button"
+                    onClick={onCancel}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { CoverageCell, buildCoverageMatrix } from '@/lib/coverage';
+
+export const CoverageMatrix: React.FC = () => {
+    const {
+        versions,
+        experiments,
+        runs,
+        currentVersion,
+        currentExperiment,
+        setCurrentVersion,
+        setCurrentExperiment
+    } = useVersionContext();
+
+    const matrix = useMemo(() =>
+        buildCoverageMatrix(versions, experiments, runs),
+        [versions, experiments, runs]
+    );
+
+    // Selecting a version resets the experiment, so the experiment is set second
+    const selectCell = (cell: CoverageCell) => {
+        console.log('🔲 Matrix - Selecting cell:', cell.versionId, cell.experimentId);
+        setCurrentVersion(cell.versionId);
+        setCurrentExperiment(cell.experimentId);
+    };
+
+    if (matrix.rows.length === 0 || matrix.experiments.length === 0) {
+        return <p className="text-sm text-gray-500">No versions or experiments yet.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+                {matrix.filledCells} of {matrix.totalCells} version × experiment combinations have trials.
+                Click a cell to open it.
+            </p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm border-collapse">
+                    <thead>
+                        <tr>
+                            <th className="p-2 text-left font-medium text-gray-600 border-b">Version</th>
+                            {matrix.experiments.map(experiment => (
+                                <th key={experiment.id} className="p-2 text-left font-medium border-b" style={{ color: experiment.color }}>
+                                    {experiment.name}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {matrix.rows.map(row => (
+                            <tr key={row.version.id}>
+                                <th className="p-2 text-left font-medium border-b whitespace-nowrap">{row.version.name}</th>
+                                {row.cells.map(cell => {
+                                    const isCurrent = cell.versionId === currentVersion?.id && cell.experimentId === currentExperiment?.id;
+                                    const isMissing = cell.trialCount === 0;
+                                    return (
+                                        <td key={cell.experimentId} className="p-1 border-b">
+                                            <button
+                                                onClick={() => selectCell(cell)}
+                                                className={`w-full px-2 py-1 text-left rounded border ${
+                                                    isCurrent
+                                                        ? 'border-blue-500 bg-blue-50'
+                                                        : isMissing
+                                                            ? 'border-dashed border-gray-300 bg-gray-50 hover:bg-gray-100'
+                                                            : 'border-gray-200 bg-white hover:bg-gray-50'
+                                                }`}
+                                            >
+                                                {isMissing ? (
+                                                    <span className="text-gray-400 italic">missing</span>
+                                                ) : (
+                                                    <>
+                                                        <div className="font-medium">median {cell.median?.toFixed(2)}</div>
+                                                        <div className="text-xs text-gray-500">
+                                                            {cell.trialCount} {cell.trialCount === 1 ? 'trial' : 'trials'}
+                                                            {cell.runCount > 1 ? ` in ${cell.runCount} runs` : ''}
+                                                        </div>
+                                                    </>
+                                                )}
+                                            </button>
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,218 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GenerationProfile } from '@/types';
+import { ComparisonBasis, DEFAULT_COMPARISON_OPTIONS } from '@/lib/comparison';
+import { PowerInputs, PowerPlan, PowerSimulationResult, canSimulatePlan, planSampleSize, planningIssue, simulatePower, thresholdIssue } from '@/lib/power';
+import { MAX_BATCH_TRIALS } from '@/lib/batchRunner';
+import { MAX_SAMPLES_PER_TRIAL } from '@/lib/trialGeneration';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface PowerCalculatorProps {
+    profile: GenerationProfile;
+    experimentName: string | null;
+    samplesPerTrial: number;
+    seed: number;
+    // Applies the plan's samples per trial to the settings and its trial count to the batch runner
+    onApplyPlan: (plan: PowerPlan) => void;
+}
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    onChange: (value: number) => void;
+    valid: boolean;
+    step: number;
+    suffix?: string;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, valid, step, suffix }) => (
+    <label className="block text-sm">
+        <span className="font-medium">{label}</span>
+        <div className="flex items-center gap-1 mt-1">
+            <input
+                type="number"
+                step={step}
+                value={Number.isFinite(value) ? value : ''}
+                onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))}
+                className={`w-24 h-9 px-2 rounded border ${valid ? 'border-gray-300' : 'border-red-500'}`}
+            />
+            {suffix && <span className="text-gray-500">{suffix}</span>}
+        </div>
+    </label>
+);
+
+export const PowerCalculator: React.FC<PowerCalculatorProps> = ({
+    profile,
+    experimentName,
+    samplesPerTrial,
+    seed,
+    onApplyPlan,
+}) => {
+    const [effectPercent, setEffectPercent] = useState<number>(5);
+    const [alpha, setAlpha] = useState<number>(0.05);
+    const [powerPercent, setPowerPercent] = useState<number>(80);
+    // Defaults to the threshold of the trend and version comparison verdicts
+    const [thresholdPercent, setThresholdPercent] = useState<number>(100 * DEFAULT_COMPARISON_OPTIONS.threshold);
+    const [basis, setBasis] = useState<ComparisonBasis>('samples');
+    const [simulation, setSimulation] = useState<PowerSimulationResult | null>(null);
+    const [simulationProgress, setSimulationProgress] = useState<number | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const isEffectValid = Number.isFinite(effectPercent) && effectPercent > 0;
+    const isAlphaValid = Number.isFinite(alpha) && alpha > 0 && alpha < 1;
+    const isPowerValid = Number.isFinite(powerPercent) && powerPercent > 0 && powerPercent < 100;
+    const isThresholdValid = Number.isFinite(thresholdPercent) && thresholdPercent >= 0;
+
+    const inputs = useMemo((): PowerInputs | null => isEffectValid && isAlphaValid && isPowerValid && isThresholdValid
+        ? {
+            profile,
+            minimumDetectableEffect: effectPercent / 100,
+            alpha,
+            power: powerPercent / 100,
+            basis,
+            threshold: thresholdPercent / 100,
+            preferredSamplesPerTrial: samplesPerTrial,
+        }
+        : null,
+        [profile, effectPercent, alpha, powerPercent, basis, thresholdPercent, samplesPerTrial, isEffectValid, isAlphaValid, isPowerValid, isThresholdValid]);
+
+    const issue = useMemo(() => planningIssue(profile) ?? (inputs ? thresholdIssue(inputs) : null), [profile, inputs]);
+    const plan = useMemo(() => inputs ? planSampleSize(inputs) : null, [inputs]);
+
+    // A simulation only describes the plan it was run for
+    useEffect(() => {
+        abortRef.current?.abort();
+        setSimulation(null);
+    }, [plan]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const runSimulation = async () => {
+        if (!inputs || !plan) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setSimulation(null);
+        setSimulationProgress(0);
+
+        console.log('🎯 Simulating power for plan:', plan);
+        try {
+            const result = await simulatePower(inputs, plan, {
+                seed,
+                signal: controller.signal,
+                onProgress: (completed, total) => setSimulationProgress(completed / total),
+            });
+            if (!controller.signal.aborted) setSimulation(result);
+        } catch (error) {
+            console.error('Error in power simulation:', error);
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setSimulationProgress(null);
+        }
+    };
+
+    const isSimulating = simulationProgress !== null;
+    const targetPower = powerPercent / 100;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Sample Size Planner{experimentName ? ` — ${experimentName}` : ''}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-6 items-end">
+                    <NumberField label="Minimum detectable effect" value={effectPercent} onChange={setEffectPercent} valid={isEffectValid} step={0.5} suffix="% of mean" />
+                    <NumberField label="Significance level (α)" value={alpha} onChange={setAlpha} valid={isAlphaValid} step={0.01} />
+                    <NumberField label="Power" value={powerPercent} onChange={setPowerPercent} valid={isPowerValid} step={5} suffix="%" />
+                    <NumberField label="Change threshold" value={thresholdPercent} onChange={setThresholdPercent} valid={isThresholdValid} step={0.5} suffix="% of mean" />
+                    <label className="block text-sm">
+                        <span className="font-medium">Compare</span>
+                        <Select value={basis} onValueChange={(value) => setBasis(value as ComparisonBasis)}>
+                            <SelectTrigger className="w-40 mt-1">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="samples">All samples</SelectItem>
+                                <SelectItem value="trial-means">Trial means</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </label>
+                </div>
+
+                {plan ? (
+                    <div className="p-4 bg-gray-50 rounded-lg border space-y-2 text-sm">
+                        <p>
+                            The profile's samples have mean {plan.mean.toFixed(2)} and standard deviation {plan.stdDev.toFixed(2)},
+                            so a {effectPercent}% change is a shift of {plan.effect.toFixed(2)}.
+                        </p>
+                        <p className="text-base">
+                            Run <span className="font-semibold">{plan.trials.toLocaleString()} trials</span> of{' '}
+                            <span className="font-semibold">{plan.samplesPerTrial.toLocaleString()} samples</span> per version
+                            ({plan.samplesPerVersion.toLocaleString()} samples each).
+                        </p>
+                        {basis === 'trial-means' && (
+                            <p className="text-gray-600">
+                                Comparing trial means needs at least {plan.minimumTrials} trials per version before the test can reach α = {alpha}.
+                            </p>
+                        )}
+                        {!plan.withinLimits && (
+                            <p className="text-amber-700">
+                                {powerPercent}% power is out of reach within the limits of {MAX_BATCH_TRIALS.toLocaleString()} trials per batch
+                                and {MAX_SAMPLES_PER_TRIAL.toLocaleString()} samples per trial; the largest plan above has less. Plan for a larger
+                                effect, a lower power or a higher significance level.
+                            </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-2 pt-2">
+                            {plan.withinLimits && (
+                                <button
+                                    onClick={() => onApplyPlan(plan)}
+                                    className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                                    title="Sets samples per trial and pre-fills the batch runner with the trial count"
+                                >
+                                    Apply {plan.samplesPerTrial.toLocaleString()} samples per trial and a batch of {plan.trials.toLocaleString()} trials
+                                </button>
+                            )}
+                            {isSimulating ? (
+                                <button
+                                    onClick={() => abortRef.current?.abort()}
+                                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                                >
+                                    Cancel simulation ({Math.round(100 * (simulationProgress ?? 0))}%)
+                                </button>
+                            ) : (
+                                <button
+                                    onClick={runSimulation}
+                                    disabled={!canSimulatePlan(plan)}
+                                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                    Validate by simulation
+                                </button>
+                            )}
+                            {!canSimulatePlan(plan) && (
+                                <span className="text-gray-500">Too many samples to simulate in the browser</span>
+                            )}
+                        </div>
+                        {simulation && (
+                            <p className={simulation.power >= targetPower - 0.05 ? 'text-green-700' : 'text-amber-700'}>
+                                Simulated power: {(100 * simulation.power).toFixed(1)}% ({simulation.detections} of {simulation.replications} simulated
+                                comparisons detected the shift{simulation.cancelled ? ', cancelled early' : ''}).
+                            </p>
+                        )}
+                    </div>
+                ) : issue ? (
+                    <p className="text-sm text-amber-700">{issue}.</p>
+                ) : (
+                    <p className="text-sm text-red-600">
+                        Enter an effect above 0%, a significance level between 0 and 1, a power between 0% and 100% and a threshold of at least 0%.
+                    </p>
+                )}
+
+                <p className="text-xs text-muted-foreground">
+                    Uses the normal approximation for a two-sided test of a shift in the mean, inflated by π/3 because
+                    comparisons use Mann-Whitney. A change is only flagged once the means also differ by the change threshold,
+                    so the plan makes both likely. The simulation generates baseline and shifted trials with the current
+                    profile and runs the same test, with the same threshold, as the version comparison.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
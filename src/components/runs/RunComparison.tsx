@@ -0,0 +1,130 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { bootstrapRun } from '@/lib/bootstrap';
+import { compareRuns } from '@/lib/comparison';
+import { describeRun, getPairRuns } from '@/lib/runs';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { VERDICT_STYLES } from '../comparison/VersionComparison';
+
+// Fewer resamples than the main chart since every run of the pair is summarized
+const RUN_RESAMPLES = 200;
+
+export const RunComparison: React.FC = () => {
+    const { runs, currentVersion, currentExperiment, currentRun, setCurrentRun, mergeRuns } = useVersionContext();
+    const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+    const pairRuns = useMemo(() =>
+        currentVersion && currentExperiment ? getPairRuns(runs, currentVersion.id, currentExperiment.id) : [],
+        [runs, currentVersion, currentExperiment]
+    );
+
+    // Every run against the current one, with the same test as the version comparison
+    const rows = useMemo(() => {
+        if (!currentRun) return [];
+        return pairRuns.map(run => ({
+            run,
+            summary: bootstrapRun(run, run.trials, { resamples: RUN_RESAMPLES }),
+            comparison: run.id === currentRun.id ? null : compareRuns(currentRun, run),
+        }));
+    }, [pairRuns, currentRun]);
+
+    // Merge selections only make sense within the pair they were made for
+    useEffect(() => {
+        setMergeIds([]);
+    }, [currentVersion?.id, currentExperiment?.id, currentRun?.id]);
+
+    if (!currentRun || pairRuns.length < 2) return null;
+
+    const toggleMerge = (runId: string) => {
+        setMergeIds(current => current.includes(runId) ? current.filter(id => id !== runId) : [...current, runId]);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Runs of {currentVersion?.name} · {currentExperiment?.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-600 border-b">
+                                <th className="p-2 font-medium">Merge</th>
+                                <th className="p-2 font-medium">Run</th>
+                                <th className="p-2 font-medium">Started</th>
+                                <th className="p-2 font-medium">Trials</th>
+                                <th className="p-2 font-medium">Median [95% CI]</th>
+                                <th className="p-2 font-medium">p99 [95% CI]</th>
+                                <th className="p-2 font-medium">Mean vs current run</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(({ run, summary, comparison }) => {
+                                const isCurrent = run.id === currentRun.id;
+                                return (
+                                    <tr key={run.id} className={`border-b ${isCurrent ? 'bg-blue-50' : ''}`}>
+                                        <td className="p-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={mergeIds.includes(run.id)}
+                                                onChange={() => toggleMerge(run.id)}
+                                                disabled={isCurrent}
+                                                aria-label={`Merge ${describeRun(run, pairRuns)} into the current run`}
+                                            />
+                                        </td>
+                                        <td className="p-2">
+                                            <button
+                                                onClick={() => setCurrentRun(run.id)}
+                                                className="text-left hover:underline"
+                                                title={run.metadata?.notes}
+                                            >
+                                                {describeRun(run, pairRuns)}
+                                                {isCurrent && <span className="ml-2 text-xs text-blue-700">current</span>}
+                                            </button>
+                                        </td>
+                                        <td className="p-2 text-gray-600">{new Date(run.timestamp).toLocaleString()}</td>
+                                        <td className="p-2">{run.trials.length}</td>
+                                        <td className="p-2 font-mono text-xs">
+                                            {summary ? `${summary.median.estimate.toFixed(2)} [${summary.median.lower.toFixed(2)}, ${summary.median.upper.toFixed(2)}]` : '—'}
+                                        </td>
+                                        <td className="p-2 font-mono text-xs">
+                                            {summary ? `${summary.p99.estimate.toFixed(2)} [${summary.p99.lower.toFixed(2)}, ${summary.p99.upper.toFixed(2)}]` : '—'}
+                                        </td>
+                                        <td className="p-2">
+                                            {comparison && (
+                                                <span className="flex items-center gap-2">
+                                                    {Number.isFinite(comparison.relativeChange) && (
+                                                        <span>{comparison.relativeChange >= 0 ? '+' : ''}{(100 * comparison.relativeChange).toFixed(2)}%</span>
+                                                    )}
+                                                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${VERDICT_STYLES[comparison.verdict].className}`}>
+                                                        {VERDICT_STYLES[comparison.verdict].label}
+                                                    </span>
+                                                </span>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <button
+                        onClick={() => mergeRuns(currentRun.id, mergeIds)}
+                        disabled={mergeIds.length === 0}
+                        className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                    >
+                        Merge {mergeIds.length > 0 ? mergeIds.length : ''} selected into {describeRun(currentRun, pairRuns)}
+                    </button>
+                    <span className="text-xs text-muted-foreground">
+                        Merging moves the trials into the current run and deletes the others; it can be undone.
+                    </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                    Runs of the same version and experiment should agree. A significant difference between them
+                    points at the environment (host, thermal state, background load) rather than the code.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
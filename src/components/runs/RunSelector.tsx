@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { RunMetadata } from '@/types';
+import { describeRun, getPairRuns, nextRunId, normalizeRunMetadata } from '@/lib/runs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface RunSelectorProps {
+    disabled: boolean;     // While trials are being generated into the current run
+}
+
+const METADATA_FIELDS: { key: keyof RunMetadata; label: string; placeholder: string }[] = [
+    { key: 'host', label: 'Host', placeholder: 'bench-01' },
+    { key: 'commit', label: 'Commit', placeholder: '3f9c2e1' },
+    { key: 'notes', label: 'Notes', placeholder: 'Turbo boost off' },
+];
+
+export const RunSelector: React.FC<RunSelectorProps> = ({ disabled }) => {
+    const {
+        runs,
+        currentVersion,
+        currentExperiment,
+        currentRun,
+        addRun,
+        setCurrentRun,
+        updateRun
+    } = useVersionContext();
+    const [metadata, setMetadata] = useState<RunMetadata>({});
+
+    const pairRuns = useMemo(() =>
+        currentVersion && currentExperiment ? getPairRuns(runs, currentVersion.id, currentExperiment.id) : [],
+        [runs, currentVersion, currentExperiment]
+    );
+
+    // Edit a copy of the current run's metadata. Adding trials keeps the metadata object,
+    // so only switching runs or saving resets the form.
+    const savedMetadata = currentRun?.metadata;
+    useEffect(() => {
+        setMetadata(savedMetadata ?? {});
+    }, [currentRun?.id, savedMetadata]);
+
+    const isMetadataChanged = METADATA_FIELDS.some(({ key }) =>
+        (metadata[key] ?? '').trim() !== (savedMetadata?.[key] ?? ''));
+
+    const startNewRun = () => {
+        if (!currentVersion || !currentExperiment) return;
+        const id = nextRunId(runs, currentVersion.id, currentExperiment.id);
+        console.log('🆕 Starting new run:', id);
+        // The host usually stays the same between runs
+        addRun({
+            id,
+            versionId: currentVersion.id,
+            experimentId: currentExperiment.id,
+            trials: [],
+            timestamp: Date.now(),
+            metadata: normalizeRunMetadata({ host: currentRun?.metadata?.host }),
+        });
+    };
+
+    if (!currentVersion || !currentExperiment) return null;
+
+    return (
+        <div className="mb-4 p-3 bg-gray-50 rounded-lg border space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm font-medium">Run:</span>
+                {pairRuns.length > 0 ? (
+                    <Select
+                        value={currentRun?.id ?? ''}
+                        onValueChange={setCurrentRun}
+                        disabled={disabled}
+                    >
+                        <SelectTrigger className="w-72">
+                            <SelectValue placeholder="Select run">
+                                {currentRun && describeRun(currentRun, pairRuns)}
+                            </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {pairRuns.map(run => (
+                                <SelectItem key={run.id} value={run.id}>
+                                    {describeRun(run, pairRuns)} — {run.trials.length} {run.trials.length === 1 ? 'trial' : 'trials'}, {new Date(run.timestamp).toLocaleString()}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ) : (
+                    <span className="text-sm text-gray-500">None yet; running a trial starts one</span>
+                )}
+                <button
+                    onClick={startNewRun}
+                    disabled={disabled || (currentRun !== null && currentRun.trials.length === 0)}
+                    title={currentRun?.trials.length === 0 ? 'The current run has no trials yet' : undefined}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                    New run
+                </button>
+            </div>
+
+            {currentRun && (
+                <form
+                    className="flex flex-wrap items-end gap-2"
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        updateRun(currentRun.id, { metadata: normalizeRunMetadata(metadata) });
+                    }}
+                >
+                    {METADATA_FIELDS.map(({ key, label, placeholder }) => (
+                        <label key={key} className={`block text-sm ${key === 'notes' ? 'flex-1 min-w-48' : ''}`}>
+                            <span className="text-gray-600">{label}</span>
+                            <input
+                                value={metadata[key] ?? ''}
+                                placeholder={placeholder}
+                                onChange={(e) => setMetadata(current => ({ ...current, [key]: e.target.value }))}
+                                className="w-full h-8 px-2 mt-1 rounded border border-gray-300"
+                            />
+                        </label>
+                    ))}
+                    <button
+                        type="submit"
+                        disabled={!isMetadataChanged}
+                        className="h-8 px-3 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
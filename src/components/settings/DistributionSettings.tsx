@@ -0,0 +1,76 @@
+import React from 'react';
+import {
+    DISTRIBUTIONS,
+    DistributionId,
+    DistributionSpec,
+    defaultDistributionSpec,
+    getDistribution
+} from '@/lib/distributions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface DistributionSettingsProps {
+    experimentName: string;
+    // undefined means the experiment uses the default normal-with-shifted-tail settings
+    distribution: DistributionSpec | undefined;
+    onChange: (distribution: DistributionSpec | undefined) => void;
+}
+
+export const DistributionSettings: React.FC<DistributionSettingsProps> = ({
+    experimentName,
+    distribution,
+    onChange,
+}) => {
+    const selectedId: DistributionId = distribution?.id ?? 'normal-tail';
+    const definition = getDistribution(selectedId);
+
+    const handleTypeChange = (id: string) => {
+        onChange(id === 'normal-tail' ? undefined : defaultDistributionSpec(id as DistributionId));
+    };
+
+    const handleParamChange = (key: string, value: number) => {
+        if (!distribution) return;
+        onChange({ ...distribution, params: { ...distribution.params, [key]: value } });
+    };
+
+    return (
+        <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-1">
+                Sample Distribution for {experimentName}
+            </label>
+            <Select value={selectedId} onValueChange={handleTypeChange}>
+                <SelectTrigger className="w-full md:w-1/2">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {Object.values(DISTRIBUTIONS).map(d => (
+                        <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <p className="text-sm text-gray-500 mt-1">{definition.description}</p>
+
+            {distribution && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-4">
+                    {definition.parameters.map(param => (
+                        <div key={param.key}>
+                            <label className="block text-sm font-medium mb-1" htmlFor={`distribution-${param.key}`}>
+                                {param.label}: {distribution.params[param.key]}
+                            </label>
+                            <input
+                                id={`distribution-${param.key}`}
+                                type="range"
+                                min={param.min}
+                                max={param.max}
+                                step={param.step}
+                                value={distribution.params[param.key]}
+                                onChange={(e) => handleParamChange(param.key, Number(e.target.value))}
+                                className="w-full"
+                            />
+                            <p className="text-sm text-gray-500 mt-1">{param.description}</p>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+    GenerationConfigErrors,
+    MAX_SAMPLES_PER_TRIAL,
+    TrialGenerationConfig,
+    validateGenerationConfig
+} from '@/lib/trialGeneration';
+import { BUILT_IN_PRESETS, GenerationPreset, deletePreset, isBuiltInPresetName, loadSavedPresets, savePreset } from '@/lib/presets';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { VersionPerturbation } from '@/types';
+import { DistributionSettings } from './DistributionSettings';
+import { VersionPerturbationSettings } from './VersionPerturbationSettings';
+import { ExpectedDistributionPreview } from '../visualization/ExpectedDistributionPreview';
+
+type NumericField = 'samplesPerTrial' | 'mean' | 'stdDev' | 'tailShift' | 'tailProbability';
+
+interface FieldDefinition {
+    key: NumericField;
+    label: string;
+    // Slider range; the number input accepts anything validation allows
+    min: number;
+    max: number;
+    step: number;
+    description: string;
+    // Only meaningful for the default normal-with-shifted-tail model
+    normalTailOnly: boolean;
+}
+
+const FIELDS: FieldDefinition[] = [
+    { key: 'samplesPerTrial', label: 'Samples per Trial', min: 5, max: 100, step: 5, description: `Controls the number of data points in each trial (up to ${MAX_SAMPLES_PER_TRIAL.toLocaleString()})`, normalTailOnly: false },
+    { key: 'mean', label: 'Mean (μ)', min: 10, max: 500, step: 1, description: 'Center of the main distribution', normalTailOnly: true },
+    { key: 'stdDev', label: 'Standard Deviation (σ)', min: 1, max: 30, step: 1, description: 'Controls the spread of the distribution', normalTailOnly: true },
+    { key: 'tailShift', label: 'Tail Shift (σ)', min: 0, max: 10, step: 0.5, description: 'How far right of the mean the tail is centered', normalTailOnly: true },
+    { key: 'tailProbability', label: 'Tail Probability', min: 0, max: 0.2, step: 0.005, description: 'Chance that a sample comes from the tail', normalTailOnly: true },
+];
+
+interface SettingsPanelProps {
+    // The current experiment's profile plus samples per trial
+    config: TrialGenerationConfig;
+    experimentName: string | null;
+    // Only called with configurations that pass validation
+    onConfigChange: (config: TrialGenerationConfig) => void;
+    versionName: string | null;
+    perturbation: VersionPerturbation | undefined;
+    onPerturbationChange: (perturbation: VersionPerturbation | undefined) => void;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+    config,
+    experimentName,
+    onConfigChange,
+    versionName,
+    perturbation,
+    onPerturbationChange,
+}) => {
+    // The draft may be invalid while the user is typing; the preview follows it live
+    const [draft, setDraft] = useState<TrialGenerationConfig>(config);
+    const [savedPresets, setSavedPresets] = useState<GenerationPreset[]>(() => loadSavedPresets());
+    const [selectedPresetName, setSelectedPresetName] = useState<string>('');
+    const [newPresetName, setNewPresetName] = useState<string>('');
+
+    useEffect(() => {
+        setDraft(config);
+    }, [config]);
+
+    const errors: GenerationConfigErrors = useMemo(() => validateGenerationConfig(draft), [draft]);
+    const isDraftValid = Object.keys(errors).length === 0;
+
+    const updateDraft = (next: TrialGenerationConfig) => {
+        setDraft(next);
+        if (Object.keys(validateGenerationConfig(next)).length === 0) {
+            onConfigChange(next);
+        }
+    };
+
+    const allPresets = [...BUILT_IN_PRESETS, ...savedPresets];
+
+    const applyPreset = (name: string) => {
+        setSelectedPresetName(name);
+        const preset = allPresets.find(p => p.name === name);
+        if (preset) {
+            console.log('🎛️ Applying preset:', name);
+            updateDraft(preset.config);
+        }
+    };
+
+    const newPresetNameReserved = isBuiltInPresetName(newPresetName);
+
+    const handleSavePreset = () => {
+        const name = newPresetName.trim();
+        if (!name || !isDraftValid || newPresetNameReserved) return;
+        setSavedPresets(savePreset(name, draft));
+        setSelectedPresetName(name);
+        setNewPresetName('');
+    };
+
+    const handleDeletePreset = () => {
+        setSavedPresets(deletePreset(selectedPresetName));
+        setSelectedPresetName('');
+    };
+
+    const isBuiltInSelected = BUILT_IN_PRESETS.some(p => p.name === selectedPresetName);
+
+    return (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-6">
+                {experimentName && (
+                    <p className="md:col-span-2 text-sm text-gray-600">
+                        Generation profile for <span className="font-medium">{experimentName}</span>. Samples per trial applies to every experiment.
+                    </p>
+                )}
+                {FIELDS
+                    .filter(field => !field.normalTailOnly || !draft.distribution)
+                    .map(field => (
+                        <div key={field.key}>
+                            <div className="flex items-center justify-between mb-1">
+                                <label className="block text-sm font-medium" htmlFor={field.key}>
+                                    {field.label}
+                                </label>
+                                <input
+                                    type="number"
+                                    step={field.step}
+                                    value={Number.isFinite(draft[field.key]) ? draft[field.key] : ''}
+                                    onChange={(e) => updateDraft({ ...draft, [field.key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                                    className={`w-24 h-7 px-2 rounded border text-sm ${errors[field.key] ? 'border-red-500' : 'border-gray-300'}`}
+                                    aria-label={`${field.label} value`}
+                                />
+                            </div>
+                            <input
+                                id={field.key}
+                                type="range"
+                                min={field.min}
+                                max={field.max}
+                                step={field.step}
+                                value={Number.isFinite(draft[field.key]) ? draft[field.key] : field.min}
+                                onChange={(e) => updateDraft({ ...draft, [field.key]: Number(e.target.value) })}
+                                className="w-full"
+                            />
+                            {errors[field.key] ? (
+                                <p className="text-sm text-red-600 mt-1">{errors[field.key]}</p>
+                            ) : (
+                                <p className="text-sm text-gray-500 mt-1">{field.description}</p>
+                            )}
+                        </div>
+                    ))}
+
+                {experimentName && (
+                    <DistributionSettings
+                        experimentName={experimentName}
+                        distribution={draft.distribution}
+                        onChange={(distribution) => updateDraft({ ...draft, distribution })}
+                    />
+                )}
+                {errors.distribution && (
+                    <p className="md:col-span-2 text-sm text-red-600">{errors.distribution}</p>
+                )}
+
+                {versionName && (
+                    <VersionPerturbationSettings
+                        versionName={versionName}
+                        perturbation={perturbation}
+                        onChange={onPerturbationChange}
+                    />
+                )}
+            </div>
+
+            <div className="space-y-4">
+                <div>
+                    <h4 className="text-sm font-medium mb-1">Expected Distribution Preview</h4>
+                    {isDraftValid ? (
+                        <ExpectedDistributionPreview config={draft} />
+                    ) : (
+                        <div className="h-40 flex items-center justify-center bg-white rounded border text-sm text-gray-500">
+                            Fix the highlighted settings to see a preview
+                        </div>
+                    )}
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-medium mb-1">Presets</h4>
+                    <div className="flex gap-2">
+                        <Select value={selectedPresetName} onValueChange={applyPreset}>
+                            <SelectTrigger className="flex-1">
+                                <SelectValue placeholder="Load a preset" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {allPresets.map(preset => (
+                                    <SelectItem key={preset.name} value={preset.name}>
+                                        {preset.name}{preset.builtIn ? ' (built-in)' : ''}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <button
+                            onClick={handleDeletePreset}
+                            disabled={!selectedPresetName || isBuiltInSelected}
+                            className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                            Delete
+                        </button>
+                    </div>
+                    <div className="flex gap-2 mt-2">
+                        <input
+                            type="text"
+                            value={newPresetName}
+                            onChange={(e) => setNewPresetName(e.target.value)}
+                            placeholder="Preset name"
+                            className={`flex-1 h-9 px-3 rounded-md border text-sm ${newPresetNameReserved ? 'border-red-500' : 'border-gray-300'}`}
+                        />
+                        <button
+                            onClick={handleSavePreset}
+                            disabled={!newPresetName.trim() || !isDraftValid || newPresetNameReserved}
+                            className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+                        >
+                            Save
+                        </button>
+                    </div>
+                    {newPresetNameReserved && (
+                        <p className="text-sm text-red-600 mt-1">"{newPresetName.trim()}" is a built-in preset; choose another name</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
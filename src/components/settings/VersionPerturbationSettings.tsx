@@ -0,0 +1,73 @@
+import React from 'react';
+import { VersionPerturbation } from '@/types';
+
+interface VersionPerturbationSettingsProps {
+    versionName: string;
+    // undefined means the version generates exactly the experiment's profile
+    perturbation: VersionPerturbation | undefined;
+    onChange: (perturbation: VersionPerturbation | undefined) => void;
+}
+
+const NO_PERTURBATION: VersionPerturbation = { meanShift: 0, stdDevScale: 1 };
+
+export const VersionPerturbationSettings: React.FC<VersionPerturbationSettingsProps> = ({
+    versionName,
+    perturbation,
+    onChange,
+}) => {
+    const current = perturbation ?? NO_PERTURBATION;
+
+    return (
+        <div className="md:col-span-2">
+            <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium">
+                    Adjustment for {versionName}
+                </label>
+                <button
+                    onClick={() => onChange(undefined)}
+                    disabled={!perturbation}
+                    className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                    Clear
+                </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-2">
+                Applied on top of every experiment's profile when generating trials for this version
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                    <label className="block text-sm font-medium mb-1" htmlFor="perturbation-mean-shift">
+                        Mean Shift: {current.meanShift.toFixed(1)}
+                    </label>
+                    <input
+                        id="perturbation-mean-shift"
+                        type="range"
+                        min={-20}
+                        max={20}
+                        step={0.5}
+                        value={current.meanShift}
+                        onChange={(e) => onChange({ ...current, meanShift: Number(e.target.value) })}
+                        className="w-full"
+                    />
+                    <p className="text-sm text-gray-500 mt-1">Added to every sample</p>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium mb-1" htmlFor="perturbation-spread-scale">
+                        Spread Scale: ×{current.stdDevScale.toFixed(2)}
+                    </label>
+                    <input
+                        id="perturbation-spread-scale"
+                        type="range"
+                        min={0.5}
+                        max={2}
+                        step={0.05}
+                        value={current.stdDevScale}
+                        onChange={(e) => onChange({ ...current, stdDevScale: Number(e.target.value) })}
+                        className="w-full"
+                    />
+                    <p className="text-sm text-gray-500 mt-1">Widens or narrows the distribution around its center</p>
+                </div>
+            </div>
+        </div>
+    );
+};
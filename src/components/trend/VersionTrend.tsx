@@ -0,0 +1,96 @@
+import React, { useMemo, useState } from 'react';
+import { useVersionContext } from '@/context/VersionContext';
+import { computeVersionTrend, isSignificantChange } from '@/lib/trend';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BOOTSTRAP_STATISTIC_LABELS } from '@/lib/bootstrap';
+import { TREND_COLORS, TREND_STATISTICS, TrendChart, TrendStatistic } from '../visualization/TrendChart';
+
+export const VersionTrend: React.FC = () => {
+    const {
+        versions,
+        experiments,
+        runs,
+        currentVersion,
+        currentExperiment,
+        setCurrentVersion,
+        setCurrentExperiment
+    } = useVersionContext();
+    // null follows the currently selected experiment
+    const [experimentId, setExperimentId] = useState<string | null>(null);
+    const [statistics, setStatistics] = useState<TrendStatistic[]>([...TREND_STATISTICS]);
+
+    const selectedExperimentId = experimentId ?? currentExperiment?.id ?? null;
+    const selectedExperiment = experiments.find(e => e.id === selectedExperimentId) ?? null;
+
+    const points = useMemo(() =>
+        selectedExperimentId ? computeVersionTrend(versions, runs, selectedExperimentId) : [],
+        [versions, runs, selectedExperimentId]
+    );
+
+    const significantCount = points.filter(isSignificantChange).length;
+
+    const toggleStatistic = (stat: TrendStatistic) => {
+        setStatistics(current => current.includes(stat)
+            ? current.filter(s => s !== stat)
+            : TREND_STATISTICS.filter(s => s === stat || current.includes(s)));
+    };
+
+    // Selecting a version resets the experiment, so re-select the one being charted
+    const handleSelectVersion = (versionId: string) => {
+        console.log('📈 Trend - Navigating to version:', versionId);
+        setCurrentVersion(versionId);
+        if (selectedExperimentId) setCurrentExperiment(selectedExperimentId);
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex justify-between items-center gap-4">
+                    <CardTitle>Trend Across Versions</CardTitle>
+                    <Select
+                        value={selectedExperimentId ?? ''}
+                        onValueChange={(value) => setExperimentId(value)}
+                    >
+                        <SelectTrigger className="w-56">
+                            <SelectValue placeholder="Select experiment">
+                                {selectedExperiment?.name}
+                            </SelectValue>
+                        </SelectTrigger>
+                        <SelectContent>
+                            {experiments.map(experiment => (
+                                <SelectItem key={experiment.id} value={experiment.id}>{experiment.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap gap-3">
+                    {TREND_STATISTICS.map(stat => (
+                        <label key={stat} className="flex items-center gap-1 text-sm">
+                            <input
+                                type="checkbox"
+                                checked={statistics.includes(stat)}
+                                onChange={() => toggleStatistic(stat)}
+                            />
+                            <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: TREND_COLORS[stat] }} />
+                            {BOOTSTRAP_STATISTIC_LABELS[stat]}
+                        </label>
+                    ))}
+                </div>
+                <TrendChart
+                    points={points}
+                    statistics={statistics}
+                    currentVersionId={currentVersion?.id ?? null}
+                    onSelectVersion={handleSelectVersion}
+                />
+                <p className="text-xs text-muted-foreground">
+                    Versions are ordered by tag, then by timestamp. Bars are 95% bootstrap confidence intervals.
+                    Enlarged points ({significantCount} here) changed significantly from the previous version
+                    with data, by the same Mann-Whitney test as the version comparison; red is a regression, green an improvement.
+                </p>
+            </CardContent>
+        </Card>
+    );
+};
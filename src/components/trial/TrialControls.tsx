@@ -1,27 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { BOOTSTRAP_STATISTICS, BOOTSTRAP_STATISTIC_LABELS, BootstrapStatistic } from '@/lib/bootstrap';
+import { BatchProgress, BatchResult, BatchStopRule, MAX_BATCH_TRIALS } from '@/lib/batchRunner';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
 interface TrialControlsProps {
     onRunTrial: () => void;
+    onRunBatch: (rule: BatchStopRule) => void;
+    onCancelBatch: () => void;
     isRunning: boolean;
+    // Set while a batch is in flight
+    batchProgress: BatchProgress | null;
+    lastBatchResult: BatchResult | null;
+    // Pre-fills a fixed-count batch; a new object each time so the same count can be re-applied
+    plannedCount?: { count: number } | null;
 }
 
+type BatchMode = BatchStopRule['kind'];
+
+const isWholeNumberInRange = (value: number) =>
+    Number.isInteger(value) && value >= 1 && value <= MAX_BATCH_TRIALS;
+
+const describeBatchResult = (result: BatchResult): string => {
+    const ran = `${result.trials.length} trial${result.trials.length === 1 ? '' : 's'}`;
+    const width = result.ciWidth !== null ? ` (CI width ${result.ciWidth.toFixed(2)})` : '';
+    if (result.error) return `Failed after ${ran}${width}: ${result.error}; completed trials were kept`;
+    if (result.cancelled) return `Cancelled after ${ran}${width}; completed trials were kept`;
+    if (result.ciWidth === null) return `Ran ${ran}`;
+    return result.targetReached
+        ? `Reached the CI width target after ${ran}${width}`
+        : `Stopped at the cap of ${ran} without reaching the target${width}`;
+};
+
 const TrialControls: React.FC<TrialControlsProps> = ({
     onRunTrial,
+    onRunBatch,
+    onCancelBatch,
     isRunning,
+    batchProgress,
+    lastBatchResult,
+    plannedCount,
 }) => {
+    const [mode, setMode] = useState<BatchMode>('count');
+    const [count, setCount] = useState<number>(10);
+    const [statistic, setStatistic] = useState<BootstrapStatistic>('mean');
+    const [width, setWidth] = useState<number>(2);
+    const [maxTrials, setMaxTrials] = useState<number>(200);
+
+    useEffect(() => {
+        if (!plannedCount) return;
+        setMode('count');
+        setCount(Math.min(plannedCount.count, MAX_BATCH_TRIALS));
+    }, [plannedCount]);
+
+    const isBatchValid = mode === 'count'
+        ? isWholeNumberInRange(count)
+        : Number.isFinite(width) && width > 0 && isWholeNumberInRange(maxTrials);
+
+    const handleRunBatch = () => {
+        if (!isBatchValid) return;
+        onRunBatch(mode === 'count'
+            ? { kind: 'count', count }
+            : { kind: 'ci-width', statistic, width, maxTrials });
+    };
+
+    const progressPercent = batchProgress
+        ? Math.round(100 * batchProgress.completed / Math.max(1, batchProgress.total))
+        : 0;
+
     return (
-        <div className="flex justify-between items-center">
-            <div className="space-x-4">
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-4">
                 <button
                     onClick={onRunTrial}
                     disabled={isRunning}
                     className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
                 >
-                    {isRunning ? 'Running Trial...' : 'Run New Trial'}
+                    {isRunning && !batchProgress ? 'Running Trial...' : 'Run New Trial'}
                 </button>
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Select value={mode} onValueChange={(value) => setMode(value as BatchMode)}>
+                        <SelectTrigger className="w-44">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="count">Run a fixed number</SelectItem>
+                            <SelectItem value="ci-width">Run until CI width</SelectItem>
+                        </SelectContent>
+                    </Select>
+
+                    {mode === 'count' ? (
+                        <label className="flex items-center gap-1">
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_BATCH_TRIALS}
+                                value={Number.isFinite(count) ? count : ''}
+                                onChange={(e) => setCount(e.target.value === '' ? NaN : Number(e.target.value))}
+                                className="w-20 h-9 px-2 rounded border border-gray-300"
+                                aria-label="Number of trials"
+                            />
+                            trials
+                        </label>
+                    ) : (
+                        <>
+                            <Select value={statistic} onValueChange={(value) => setStatistic(value as BootstrapStatistic)}>
+                                <SelectTrigger className="w-28">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {BOOTSTRAP_STATISTICS.map(stat => (
+                                        <SelectItem key={stat} value={stat}>{BOOTSTRAP_STATISTIC_LABELS[stat]}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <label className="flex items-center gap-1">
+                                95% CI ≤
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    value={Number.isFinite(width) ? width : ''}
+                                    onChange={(e) => setWidth(e.target.value === '' ? NaN : Number(e.target.value))}
+                                    className="w-20 h-9 px-2 rounded border border-gray-300"
+                                    aria-label="Target CI width"
+                                />
+                            </label>
+                            <label className="flex items-center gap-1">
+                                max
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={MAX_BATCH_TRIALS}
+                                    value={Number.isFinite(maxTrials) ? maxTrials : ''}
+                                    onChange={(e) => setMaxTrials(e.target.value === '' ? NaN : Number(e.target.value))}
+                                    className="w-20 h-9 px-2 rounded border border-gray-300"
+                                    aria-label="Maximum trials"
+                                />
+                                trials
+                            </label>
+                        </>
+                    )}
+
+                    <button
+                        onClick={handleRunBatch}
+                        disabled={isRunning || !isBatchValid}
+                        className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                    >
+                        Run Batch
+                    </button>
+                </div>
             </div>
+
+            {batchProgress && (
+                <div className="flex items-center gap-3">
+                    <div
+                        className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden"
+                        role="progressbar"
+                        aria-valuemin={0}
+                        aria-valuemax={batchProgress.total}
+                        aria-valuenow={batchProgress.completed}
+                    >
+                        <div className="h-full bg-blue-500 transition-all" style={{ width: `${progressPercent}%` }} />
+                    </div>
+                    <span className="text-sm text-gray-600 whitespace-nowrap">
+                        {batchProgress.completed} / {batchProgress.total}
+                        {batchProgress.ciWidth !== null && ` · CI width ${batchProgress.ciWidth.toFixed(2)}`}
+                    </span>
+                    <button
+                        onClick={onCancelBatch}
+                        className="px-3 py-1 text-sm bg-white border border-gray-300 rounded hover:bg-gray-50"
+                    >
+                        Cancel
+                    </button>
+                </div>
+            )}
+
+            {!batchProgress && lastBatchResult && (
+                <p className="text-sm text-gray-600">{describeBatchResult(lastBatchResult)}</p>
+            )}
         </div>
     );
 };
 
 export {
     TrialControls
-}
\ No newline at end of file
+}
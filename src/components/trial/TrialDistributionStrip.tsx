@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { Trial } from '@/types';
+import { getSortedTrialSamples } from '@/lib/binning';
+import { createKernelDensity, summarizeBox } from '@/lib/density';
+import { cachedFor } from '@/lib/statsCache';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+interface TrialDistributionStripProps {
+    trials: Trial[];
+    selectedTrialId: string | null;
+    onTrialClick: (trialId: string) => void;
+}
+
+type StripStyle = 'box' | 'violin';
+
+// SVG layout in viewBox units; the strip scales with the container's width
+const VIEW_WIDTH = 1000;
+const LABEL_WIDTH = 70;
+const PLOT_RIGHT = VIEW_WIDTH - 15;
+const ROW_HEIGHT = 22;
+const AXIS_HEIGHT = 26;
+const TICK_COUNT = 5;
+const VIOLIN_POINTS = 48;
+
+const summarizeRow = (trial: Trial, style: StripStyle) => {
+    const samples = getSortedTrialSamples(trial);
+    const box = summarizeBox(samples);
+    const density = style === 'violin' && box ? createKernelDensity(samples) : null;
+    // Violin outline from the smallest to the largest sample, scaled to the trial's own peak
+    const profile = density && box
+        ? Array.from({ length: VIOLIN_POINTS + 1 }, (_, i) => {
+            const value = box.min + (box.max - box.min) * i / VIOLIN_POINTS;
+            return { value, density: density.density(value) };
+        })
+        : [];
+    const peak = Math.max(...profile.map(p => p.density), 0);
+    return { box, profile: profile.map(p => ({ value: p.value, width: peak > 0 ? p.density / peak : 0 })) };
+};
+
+// One row per trial on a shared value axis, so spread and outliers line up across trials
+export const TrialDistributionStrip: React.FC<TrialDistributionStripProps> = ({
+    trials,
+    selectedTrialId,
+    onTrialClick,
+}) => {
+    const [style, setStyle] = useState<StripStyle>('box');
+
+    // Each trial's shape is computed once per style, not again whenever a trial is added
+    const rows = useMemo(() => trials.map((trial, index) => ({
+        trial,
+        index,
+        ...cachedFor(trial, `strip:${style}`, () => summarizeRow(trial, style)),
+    })), [trials, style]);
+
+    const [low, high] = useMemo(() => {
+        const boxes = rows.flatMap(row => row.box ?? []);
+        if (boxes.length === 0) return [0, 1];
+        const min = Math.min(...boxes.map(b => b.min));
+        const max = Math.max(...boxes.map(b => b.max));
+        return min === max ? [min - 0.5, max + 0.5] : [min, max];
+    }, [rows]);
+
+    if (rows.length === 0) return null;
+
+    const x = (value: number) => LABEL_WIDTH + (value - low) / (high - low) * (PLOT_RIGHT - LABEL_WIDTH);
+    const height = rows.length * ROW_HEIGHT + AXIS_HEIGHT;
+    const ticks = Array.from({ length: TICK_COUNT }, (_, i) => low + (high - low) * i / (TICK_COUNT - 1));
+
+    return (
+        <div className="mt-2">
+            <div className="flex items-center justify-between mb-1">
+                <span className="text-sm font-medium">Spread per trial</span>
+                <Tabs value={style} onValueChange={(value) => setStyle(value as StripStyle)}>
+                    <TabsList>
+                        <TabsTrigger value="box">Box</TabsTrigger>
+                        <TabsTrigger value="violin">Violin</TabsTrigger>
+                    </TabsList>
+                </Tabs>
+            </div>
+            <div className="max-h-80 overflow-y-auto border rounded bg-white">
+                <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} width="100%" role="img" aria-label="Distribution of each trial">
+                    {ticks.map(tick => (
+                        <g key={tick}>
+                            <line x1={x(tick)} x2={x(tick)} y1={0} y2={rows.length * ROW_HEIGHT} stroke="#E5E7EB" />
+                            <text x={x(tick)} y={height - 8} textAnchor="middle" fontSize={11} fill="#6B7280">
+                                {tick.toPrecision(3)}
+                            </text>
+                        </g>
+                    ))}
+
+                    {rows.map(({ trial, index, box, profile }, row) => {
+                        const center = row * ROW_HEIGHT + ROW_HEIGHT / 2;
+                        const half = ROW_HEIGHT * 0.35;
+                        const isSelected = trial.id === selectedTrialId;
+                        const color = isSelected ? '#2563EB' : '#4B5563';
+                        return (
+                            <g key={trial.id} onClick={() => onTrialClick(trial.id)} className="cursor-pointer">
+                                <title>
+                                    {box
+                                        ? `Trial #${index + 1}: median ${box.median.toFixed(2)}, IQR [${box.q1.toFixed(2)}, ${box.q3.toFixed(2)}], ` +
+                                          `whiskers [${box.lowerWhisker.toFixed(2)}, ${box.upperWhisker.toFixed(2)}], ${box.outlierCount} outliers`
+                                        : `Trial #${index + 1}: no samples`}
+                                </title>
+                                <rect x={0} y={row * ROW_HEIGHT} width={VIEW_WIDTH} height={ROW_HEIGHT} fill={isSelected ? '#EFF6FF' : 'transparent'} />
+                                <text x={8} y={center + 4} fontSize={11} fill={color} fontWeight={isSelected ? 600 : 400}>
+                                    #{index + 1}
+                                </text>
+                                {box && style === 'box' && (
+                                    <>
+                                        <line x1={x(box.lowerWhisker)} x2={x(box.upperWhisker)} y1={center} y2={center} stroke={color} />
+                                        <line x1={x(box.lowerWhisker)} x2={x(box.lowerWhisker)} y1={center - half / 2} y2={center + half / 2} stroke={color} />
+                                        <line x1={x(box.upperWhisker)} x2={x(box.upperWhisker)} y1={center - half / 2} y2={center + half / 2} stroke={color} />
+                                        <rect
+                                            x={x(box.q1)}
+                                            y={center - half}
+                                            width={Math.max(1, x(box.q3) - x(box.q1))}
+                                            height={2 * half}
+                                            fill={isSelected ? '#BFDBFE' : '#E5E7EB'}
+                                            stroke={color}
+                                        />
+                                    </>
+                                )}
+                                {box && style === 'violin' && profile.length > 0 && (
+                                    <path
+                                        d={[
+                                            ...profile.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.value)},${center - p.width * half}`),
+                                            ...[...profile].reverse().map(p => `L${x(p.value)},${center + p.width * half}`),
+                                            'Z',
+                                        ].join(' ')}
+                                        fill={isSelected ? '#BFDBFE' : '#E5E7EB'}
+                                        stroke={color}
+                                    />
+                                )}
+                                {box && (
+                                    <>
+                                        <line x1={x(box.median)} x2={x(box.median)} y1={center - half} y2={center + half} stroke={color} strokeWidth={2} />
+                                        {box.outliers.map((value, i) => (
+                                            <circle key={i} cx={x(value)} cy={center} r={2} fill="none" stroke="#EF4444" />
+                                        ))}
+                                    </>
+                                )}
+                            </g>
+                        );
+                    })}
+                </svg>
+            </div>
+        </div>
+    );
+};
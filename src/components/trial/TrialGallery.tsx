@@ -1,17 +1,25 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import { Trial } from "@/types";
+import { BOOTSTRAP_STATISTICS, BOOTSTRAP_STATISTIC_LABELS, bootstrapTrial } from '@/lib/bootstrap';
+import { QUALITY_FLAG_LABELS, RunQuality } from '@/lib/quality';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { TrialDistributionStrip } from './TrialDistributionStrip';
 
 interface TrialGalleryProps {
   trials: Trial[];
   selectedTrialId: string | null;
   onTrialSelect: (trialId: string | null) => void;
+  onTrialDelete?: (trialId: string) => void;
+  // Outlier analysis of the trials' run, shown as warning badges
+  quality?: RunQuality;
 }
 
 export const TrialGallery: React.FC<TrialGalleryProps> = ({
   trials,
   selectedTrialId,
   onTrialSelect,
+  onTrialDelete,
+  quality,
 }) => {
   // Debug logging
   useEffect(() => {
@@ -22,6 +30,12 @@ export const TrialGallery: React.FC<TrialGalleryProps> = ({
     });
   }, [trials, selectedTrialId]);
 
+  // 95% bootstrap confidence intervals per trial
+  const trialIntervals = useMemo(
+    () => new Map(trials.map(trial => [trial.id, bootstrapTrial(trial)])),
+    [trials]
+  );
+
   const handleTrialSelect = (trialId: string) => {
     console.log('🔍 Trial clicked:', trialId, 'Currently selected:', selectedTrialId);
 
@@ -46,66 +60,126 @@ export const TrialGallery: React.FC<TrialGalleryProps> = ({
   }
 
   return (
-    <div className="relative">
-      <div
-        className="overflow-x-auto pb-4 pt-2 px-1 hide-scrollbar"
-        ref={(ref) => {
-          if (ref && selectedTrialId) {
-            const selectedCard = ref.querySelector(`[data-trial-id="${selectedTrialId}"]`);
-            if (selectedCard) {
-              selectedCard.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+    <div>
+      <div className="relative">
+        <div
+          className="overflow-x-auto pb-4 pt-2 px-1 hide-scrollbar"
+          ref={(ref) => {
+            if (ref && selectedTrialId) {
+              const selectedCard = ref.querySelector(`[data-trial-id="${selectedTrialId}"]`);
+              if (selectedCard) {
+                selectedCard.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'nearest' });
+              }
             }
-          }
-        }}
-      >
-        <div className="flex space-x-4 px-1">
-          {trials.map((trial, index) => (
-            <Card
-              key={trial.id}
-              data-trial-id={trial.id}
-              onClick={() => handleTrialSelect(trial.id)}
-              className={`flex-shrink-0 w-64 cursor-pointer transition-all origin-center hover:scale-105 ${
-                trial.id === selectedTrialId
-                  ? 'ring-2 ring-blue-500 shadow-lg bg-blue-50'
-                  : 'shadow hover:shadow-md'
-              }`}
-            >
-              <CardHeader className="p-4">
-                <div className="flex justify-between items-center">
-                  <CardTitle className="text-sm">
-                    Trial #{index + 1}
-                    {trial.id === selectedTrialId && (
-                      <span className="ml-2 inline-block px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
-                        Selected
-                      </span>
-                    )}
-                  </CardTitle>
-                  <CardDescription className="text-xs">{new Date(trial.timestamp).toLocaleTimeString()}</CardDescription>
-                </div>
-              </CardHeader>
-              <CardContent className="p-4 pt-0">
-                <div className="space-y-2">
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">ID:</span>
-                    <span className="text-xs font-mono">{trial.id}</span>
+          }}
+        >
+          <div className="flex space-x-4 px-1">
+            {trials.map((trial, index) => (
+              <Card
+                key={trial.id}
+                data-trial-id={trial.id}
+                onClick={() => handleTrialSelect(trial.id)}
+                className={`flex-shrink-0 w-64 cursor-pointer transition-all origin-center hover:scale-105 ${
+                  trial.id === selectedTrialId
+                    ? 'ring-2 ring-blue-500 shadow-lg bg-blue-50'
+                    : 'shadow hover:shadow-md'
+                }`}
+              >
+                <CardHeader className="p-4">
+                  <div className="flex justify-between items-center">
+                    <CardTitle className="text-sm">
+                      Trial #{index + 1}
+                      {trial.id === selectedTrialId && (
+                        <span className="ml-2 inline-block px-2 py-0.5 text-xs bg-blue-100 text-blue-800 rounded-full">
+                          Selected
+                        </span>
+                      )}
+                    </CardTitle>
+                    <div className="flex items-center gap-2">
+                      <CardDescription className="text-xs">{new Date(trial.timestamp).toLocaleTimeString()}</CardDescription>
+                      {onTrialDelete && (
+                        <button
+                          onClick={(e) => {
+                            // Don't also toggle the selection
+                            e.stopPropagation();
+                            onTrialDelete(trial.id);
+                          }}
+                          className="text-xs text-gray-400 hover:text-red-600"
+                          title="Delete trial"
+                          aria-label={`Delete trial ${trial.id}`}
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </div>
                   </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Max:</span>
-                    <span className="text-sm font-semibold">{trial.maxValue.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-sm text-muted-foreground">Mean:</span>
-                    <span className="text-sm">{trial.sampleMean.toFixed(2)}</span>
+                </CardHeader>
+                <CardContent className="p-4 pt-0">
+                  {quality?.trials.get(trial.id)?.flags.length ? (
+                    <div className="flex flex-wrap gap-1 mb-2">
+                      {quality.trials.get(trial.id)!.flags.map(flag => (
+                        <span
+                          key={flag}
+                          title={QUALITY_FLAG_LABELS[flag].description}
+                          className="inline-block px-2 py-0.5 text-xs bg-amber-100 text-amber-800 rounded-full"
+                        >
+                          ⚠ {QUALITY_FLAG_LABELS[flag].label}
+                        </span>
+                      ))}
+                    </div>
+                  ) : null}
+                  <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">ID:</span>
+                      <span className="text-xs font-mono">{trial.id}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Max:</span>
+                      <span className="text-sm font-semibold">{trial.maxValue.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-sm text-muted-foreground">Mean:</span>
+                      <span className="text-sm">{trial.sampleMean.toFixed(2)}</span>
+                    </div>
+                    {quality?.trials.get(trial.id) && (
+                      <div className="flex justify-between" title="Samples outside the IQR fences / with a MAD z-score above 3.5">
+                        <span className="text-sm text-muted-foreground">Outliers (IQR/MAD):</span>
+                        <span className="text-sm">
+                          {quality.trials.get(trial.id)!.iqrOutliers} / {quality.trials.get(trial.id)!.madOutliers}
+                        </span>
+                      </div>
+                    )}
+                    {trialIntervals.get(trial.id) && (
+                      <div className="pt-2 border-t border-gray-100">
+                        <div className="text-xs text-muted-foreground mb-1">95% bootstrap CI</div>
+                        {BOOTSTRAP_STATISTICS.map(stat => {
+                          const interval = trialIntervals.get(trial.id)![stat];
+                          return (
+                            <div key={stat} className="flex justify-between text-xs">
+                              <span className="text-muted-foreground">{BOOTSTRAP_STATISTIC_LABELS[stat]}:</span>
+                              <span className="font-mono">
+                                [{interval.lower.toFixed(1)}, {interval.upper.toFixed(1)}]
+                              </span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
         </div>
+        {trials.length > 3 && (
+          <div className="absolute right-0 top-2 bottom-4 w-16 bg-gradient-to-l from-white pointer-events-none" />
+        )}
       </div>
-      {trials.length > 3 && (
-        <div className="absolute right-0 top-2 bottom-4 w-16 bg-gradient-to-l from-white pointer-events-none" />
-      )}
+      <TrialDistributionStrip
+        trials={trials}
+        selectedTrialId={selectedTrialId}
+        onTrialClick={handleTrialSelect}
+      />
     </div>
   );
 };
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { BINNING_STRATEGIES, BinningConfig, BinningStrategy, MAX_BUCKET_COUNT } from '@/lib/binning';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface BinningControlsProps {
+    config: BinningConfig;
+    onConfigChange: (config: BinningConfig) => void;
+}
+
+const HDR_SUB_BUCKET_OPTIONS = [2, 4, 8, 16, 32, 64];
+
+const isValidBucketCount = (value: number) =>
+    Number.isInteger(value) && value >= 1 && value <= MAX_BUCKET_COUNT;
+
+export const BinningControls: React.FC<BinningControlsProps> = ({ config, onConfigChange }) => {
+    // Drafts so half-typed values don't re-bin the chart; only valid ones are applied
+    const [bucketCount, setBucketCount] = useState<number>(config.bucketCount);
+    const [rangeStart, setRangeStart] = useState<number>(config.domain?.[0] ?? NaN);
+    const [rangeEnd, setRangeEnd] = useState<number>(config.domain?.[1] ?? NaN);
+
+    const usesBucketCount = config.strategy === 'fixed' || config.strategy === 'log';
+    // Both ends blank means "the samples' range"
+    const isRangeBlank = Number.isNaN(rangeStart) && Number.isNaN(rangeEnd);
+    const isRangeValid = isRangeBlank ||
+        (Number.isFinite(rangeStart) && Number.isFinite(rangeEnd) && rangeStart < rangeEnd);
+
+    const changeBucketCount = (value: number) => {
+        setBucketCount(value);
+        if (isValidBucketCount(value)) onConfigChange({ ...config, bucketCount: value });
+    };
+
+    const changeRange = (start: number, end: number) => {
+        setRangeStart(start);
+        setRangeEnd(end);
+        if (Number.isNaN(start) && Number.isNaN(end)) {
+            onConfigChange({ ...config, domain: undefined });
+        } else if (Number.isFinite(start) && Number.isFinite(end) && start < end) {
+            onConfigChange({ ...config, domain: [start, end] });
+        }
+    };
+
+    const parse = (text: string) => text === '' ? NaN : Number(text);
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">Binning:</span>
+            <Select
+                value={config.strategy}
+                onValueChange={(value) => onConfigChange({ ...config, strategy: value as BinningStrategy })}
+            >
+                <SelectTrigger className="w-48">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {(Object.keys(BINNING_STRATEGIES) as BinningStrategy[]).map(strategy => (
+                        <SelectItem key={strategy} value={strategy}>{BINNING_STRATEGIES[strategy].label}</SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+
+            {usesBucketCount && (
+                <label className="flex items-center gap-1">
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_BUCKET_COUNT}
+                        value={Number.isFinite(bucketCount) ? bucketCount : ''}
+                        onChange={(e) => changeBucketCount(parse(e.target.value))}
+                        className={`w-20 h-9 px-2 rounded border ${isValidBucketCount(bucketCount) ? 'border-gray-300' : 'border-red-400'}`}
+                        aria-label="Number of buckets"
+                    />
+                    buckets
+                </label>
+            )}
+
+            {config.strategy === 'fixed' && (
+                <label className="flex items-center gap-1">
+                    from
+                    <input
+                        type="number"
+                        value={Number.isFinite(rangeStart) ? rangeStart : ''}
+                        placeholder="min"
+                        onChange={(e) => changeRange(parse(e.target.value), rangeEnd)}
+                        className={`w-24 h-9 px-2 rounded border ${isRangeValid ? 'border-gray-300' : 'border-red-400'}`}
+                        aria-label="Range start"
+                    />
+                    to
+                    <input
+                        type="number"
+                        value={Number.isFinite(rangeEnd) ? rangeEnd : ''}
+                        placeholder="max"
+                        onChange={(e) => changeRange(rangeStart, parse(e.target.value))}
+                        className={`w-24 h-9 px-2 rounded border ${isRangeValid ? 'border-gray-300' : 'border-red-400'}`}
+                        aria-label="Range end"
+                    />
+                </label>
+            )}
+
+            {config.strategy === 'hdr' && (
+                <Select
+                    value={String(config.hdrSubBuckets)}
+                    onValueChange={(value) => onConfigChange({ ...config, hdrSubBuckets: Number(value) })}
+                >
+                    <SelectTrigger className="w-44">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {HDR_SUB_BUCKET_OPTIONS.map(count => (
+                            <SelectItem key={count} value={String(count)}>{count} per power of two</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+            )}
+
+            <span className="text-xs text-muted-foreground">{BINNING_STRATEGIES[config.strategy].description}</span>
+        </div>
+    );
+};
@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Area, Bar, BarChart, CartesianGrid, ComposedChart, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { buildDensityHistogram } from '@/lib/binning';
+
+export interface ComparisonSeries {
+    id: string;
+    label: string;
+    color: string;
+    samples: ArrayLike<number>;
+}
+
+export type ComparisonLayout = 'overlay' | 'small-multiples';
+
+interface ComparisonChartProps {
+    series: ComparisonSeries[];
+    layout: ComparisonLayout;
+    numBuckets?: number;
+}
+
+// Recharts treats dots in a dataKey as a property path, so series are keyed by position
+const seriesKey = (index: number) => `s${index}`;
+
+const formatDensity = (value: unknown) =>
+    typeof value === 'number' ? value.toExponential(2) : String(value);
+
+export const ComparisonChart: React.FC<ComparisonChartProps> = ({
+    series,
+    layout,
+    numBuckets = 30,
+}) => {
+    const { chartData, domain, maxDensity } = useMemo(() => {
+        const rows = buildDensityHistogram(series.map(s => ({ id: s.id, samples: s.samples })), numBuckets);
+        let maxDensity = 0;
+
+        const chartData = rows.map(row => {
+            const item: Record<string, number | string> = {
+                value: row.value,
+                range: `${row.start.toFixed(1)} - ${row.end.toFixed(1)}`,
+            };
+            series.forEach((s, index) => {
+                const density = row.densities[s.id] ?? 0;
+                item[seriesKey(index)] = density;
+                maxDensity = Math.max(maxDensity, density);
+            });
+            return item;
+        });
+
+        const domain: [number, number] = rows.length > 0
+            ? [rows[0].start, rows[rows.length - 1].end]
+            : [0, 1];
+
+        return { chartData, domain, maxDensity };
+    }, [series, numBuckets]);
+
+    if (chartData.length === 0) {
+        return (
+            <div className="flex justify-center items-center p-8 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Select at least one version with samples to compare.</p>
+            </div>
+        );
+    }
+
+    const xAxis = (
+        <XAxis
+            dataKey="value"
+            type="number"
+            domain={domain}
+            tickFormatter={(v: number) => v.toFixed(0)}
+        />
+    );
+
+    if (layout === 'small-multiples') {
+        // Shared x and y domains so the panels can be compared by eye
+        const yDomain: [number, number] = [0, maxDensity * 1.05];
+        return (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {series.map((s, index) => (
+                    <div key={s.id} className="border rounded-lg p-2">
+                        <div className="flex items-center gap-2 mb-1 text-sm font-medium">
+                            <span className="inline-block w-3 h-3 rounded" style={{ backgroundColor: s.color }} />
+                            {s.label}
+                            <span className="text-xs text-muted-foreground">n={s.samples.length}</span>
+                        </div>
+                        <div className="h-48">
+                            <ResponsiveContainer width="100%" height="100%">
+                                <BarChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }} barCategoryGap={0}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    {xAxis}
+                                    <YAxis domain={yDomain} tickFormatter={formatDensity} width={60} />
+                                    <Tooltip formatter={(value) => [formatDensity(value), 'Density']} />
+                                    <Bar dataKey={seriesKey(index)} fill={s.color} opacity={0.8} isAnimationActive={false} />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-96">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    {xAxis}
+                    <YAxis
+                        tickFormatter={formatDensity}
+                        label={{ value: 'Density', angle: -90, position: 'insideLeft', offset: 10 }}
+                    />
+                    <Tooltip formatter={(value, name) => [formatDensity(value), name]} />
+                    <Legend />
+                    {series.map((s, index) => (
+                        <Area
+                            key={s.id}
+                            type="step"
+                            dataKey={seriesKey(index)}
+                            name={`${s.label} (n=${s.samples.length})`}
+                            stroke={s.color}
+                            fill={s.color}
+                            fillOpacity={0.2}
+                            strokeWidth={2}
+                            isAnimationActive={false}
+                        />
+                    ))}
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
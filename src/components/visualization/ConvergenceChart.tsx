@@ -0,0 +1,114 @@
+import React from 'react';
+import { CartesianGrid, ComposedChart, Legend, Line, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ConvergencePoint } from '@/lib/convergence';
+
+export type ConvergenceAxis = 'trials' | 'samples';
+
+export interface StabilizationMarker {
+    label: string;
+    color: string;
+    point: ConvergencePoint;
+    // ± band around the final value the estimate stays within from `point` on
+    band: [number, number];
+}
+
+interface ConvergenceChartProps {
+    points: ConvergencePoint[];
+    xAxis: ConvergenceAxis;
+    markers: StabilizationMarker[];
+}
+
+export const CONVERGENCE_COLORS = {
+    runningMean: '#2563EB',
+    runningMax: '#DC2626',
+    ciWidth: '#6B7280',
+};
+
+const formatValue = (value: unknown) =>
+    typeof value === 'number' ? value.toFixed(2) : String(value);
+
+export const ConvergenceChart: React.FC<ConvergenceChartProps> = ({ points, xAxis, markers }) => {
+    if (points.length === 0) {
+        return (
+            <div className="flex justify-center items-center p-8 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">Run some trials to see how the estimates converge.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={points} margin={{ top: 10, right: 20, left: 0, bottom: 20 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                        dataKey={xAxis}
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        allowDecimals={false}
+                        label={{ value: xAxis === 'trials' ? 'Trials' : 'Samples', position: 'insideBottom', offset: -10 }}
+                    />
+                    <YAxis yAxisId="value" domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(0)} />
+                    <YAxis yAxisId="width" orientation="right" tickFormatter={(v: number) => v.toFixed(1)} />
+                    <Tooltip
+                        formatter={(value, name) => [formatValue(value), name]}
+                        labelFormatter={(label) => `${label} ${xAxis}`}
+                    />
+                    <Legend verticalAlign="top" />
+
+                    {markers.map(marker => (
+                        <ReferenceArea
+                            key={`${marker.label}-band`}
+                            yAxisId="value"
+                            y1={marker.band[0]}
+                            y2={marker.band[1]}
+                            fill={marker.color}
+                            fillOpacity={0.08}
+                            ifOverflow="extendDomain"
+                        />
+                    ))}
+                    {markers.map(marker => (
+                        <ReferenceLine
+                            key={`${marker.label}-line`}
+                            yAxisId="value"
+                            x={marker.point[xAxis]}
+                            stroke={marker.color}
+                            strokeDasharray="4 4"
+                            label={{ value: marker.label, position: 'insideTopLeft', fill: marker.color, fontSize: 12 }}
+                        />
+                    ))}
+
+                    <Line
+                        yAxisId="value"
+                        type="monotone"
+                        dataKey="runningMean"
+                        name="Running mean"
+                        stroke={CONVERGENCE_COLORS.runningMean}
+                        dot={false}
+                        isAnimationActive={false}
+                    />
+                    <Line
+                        yAxisId="value"
+                        type="stepAfter"
+                        dataKey="runningMax"
+                        name="Running max"
+                        stroke={CONVERGENCE_COLORS.runningMax}
+                        dot={false}
+                        isAnimationActive={false}
+                    />
+                    <Line
+                        yAxisId="width"
+                        type="monotone"
+                        dataKey="ciWidth"
+                        name="95% CI width of mean"
+                        stroke={CONVERGENCE_COLORS.ciWidth}
+                        strokeDasharray="5 3"
+                        dot={false}
+                        connectNulls
+                        isAnimationActive={false}
+                    />
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
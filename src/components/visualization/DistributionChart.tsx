@@ -1,7 +1,18 @@
 import React from 'react';
-import { ComposedChart, Bar, ReferenceLine, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Bar, Line, Scatter, ReferenceArea, ReferenceLine, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { ValueType, NameType, Payload } from 'recharts/types/component/DefaultTooltipContent';
 import { Card, CardHeader, CardTitle, CardContent } from '../ui/card';
+import { BootstrapStatistic } from '@/lib/bootstrap';
+import { CdfPoint, QqPoint, SPECTRUM_QUANTILES, SpectrumPoint, quantileLabel, spectrumPosition } from '@/lib/quantilePlots';
+
+export type DistributionChartMode = 'histogram' | 'cdf' | 'spectrum' | 'qq';
+
+export const DISTRIBUTION_CHART_MODES: Record<DistributionChartMode, string> = {
+    histogram: 'Histogram',
+    cdf: 'CDF',
+    spectrum: 'Percentiles',
+    qq: 'Q-Q',
+};
 
 export interface ChartDataItem {
     value: number;
@@ -9,6 +20,7 @@ export interface ChartDataItem {
     observed: number;
     range: string;
     sigma: string;
+    kde?: number;          // Kernel density scaled to a count for the bucket, when the overlay is on
 }
 
 export interface MaxValuePoint {
@@ -24,23 +36,169 @@ export interface SigmaLine {
     label: string;
 }
 
+// Percentile read straight off recorded buckets, for trials without samples
+export interface PercentileLine {
+    value: number;
+    label: string;
+}
+
+export interface ConfidenceBand {
+    statistic: BootstrapStatistic;
+    label: string;
+    lower: number;
+    upper: number;
+}
+
+export const CONFIDENCE_BAND_COLORS: Record<BootstrapStatistic, string> = {
+    mean: '#3B82F6',
+    median: '#8B5CF6',
+    p90: '#F59E0B',
+    p99: '#EF4444',
+    max: '#6B7280',
+};
+
 interface DistributionChartProps {
     chartData: ChartDataItem[];
     domain: [number, number];
     maxValuePoints: MaxValuePoint[];
     sigmaLines: SigmaLine[];
     selectedTrialId: string | null;
+    confidenceBands?: ConfidenceBand[];
+    percentileLines?: PercentileLine[];
+    // Log-scaled value axis for data spanning orders of magnitude; non-positive values are hidden
+    logScale?: boolean;
+    mode?: DistributionChartMode;
+    // Data for the non-histogram modes; `expected` fields are absent without a model
+    cdfData?: CdfPoint[];
+    spectrumData?: SpectrumPoint[];
+    qqData?: QqPoint[];
 }
 
+const EXPECTED_COLOR = '#8884d8';
+const OBSERVED_COLOR = '#16A34A';
+
+const formatValue = (value: number) => Number.isFinite(value) ? value.toPrecision(4) : '—';
+
+const valueAxisProps = (logScale: boolean) => ({
+    type: 'number' as const,
+    scale: logScale ? 'log' as const : 'auto' as const,
+    domain: logScale ? ['auto', 'auto'] : ['dataMin', 'dataMax'],
+    allowDataOverflow: logScale,
+    tickFormatter: (value: number) => value.toPrecision(3),
+});
+
+// Empirical CDF against the model's; tail differences show up as a gap near 1
+const CdfChart: React.FC<{ data: CdfPoint[]; logScale: boolean }> = ({ data, logScale }) => (
+    <ComposedChart data={logScale ? data.filter(point => point.value > 0) : data} margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+            dataKey="value"
+            {...valueAxisProps(logScale)}
+            label={{ value: logScale ? 'Benchmark Value (log scale)' : 'Benchmark Value', position: 'bottom', offset: 0 }}
+        />
+        <YAxis domain={[0, 1]} tickFormatter={(v: number) => v.toFixed(2)} label={{ value: 'P(X ≤ x)', angle: -90, position: 'insideLeft', offset: 10 }} />
+        <Tooltip
+            formatter={(value: number, name: string) => [value.toFixed(4), name === 'expected' ? 'Expected CDF' : 'Empirical CDF']}
+            labelFormatter={(value: number) => `Value: ${formatValue(value)}`}
+        />
+        <Legend />
+        {data.some(point => point.expected !== undefined) && (
+            <Line type="monotone" dataKey="expected" name="expected" stroke={EXPECTED_COLOR} strokeWidth={2} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+        )}
+        <Line type="stepAfter" dataKey="empirical" name="empirical" stroke={OBSERVED_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+    </ComposedChart>
+);
+
+// Value at each quantile with the quantile axis stretched as log10(1/(1-q)), so every
+// extra nine gets the same width as the whole body
+const SpectrumChart: React.FC<{ data: SpectrumPoint[]; logScale: boolean }> = ({ data, logScale }) => {
+    const lastPosition = data.length > 0 ? data[data.length - 1].position : 0;
+    const ticks = SPECTRUM_QUANTILES.map(spectrumPosition).filter(position => position <= lastPosition + 1e-9);
+    return (
+        <ComposedChart data={data} margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+                dataKey="position"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                ticks={ticks}
+                tickFormatter={(position: number) => quantileLabel(1 - 10 ** -position)}
+                label={{ value: 'Percentile', position: 'bottom', offset: 0 }}
+            />
+            <YAxis {...valueAxisProps(logScale)} label={{ value: 'Value', angle: -90, position: 'insideLeft', offset: 10 }} />
+            <Tooltip
+                formatter={(value: number, name: string) => [formatValue(value), name === 'expected' ? 'Expected' : 'Observed']}
+                labelFormatter={(position: number) => quantileLabel(1 - 10 ** -position)}
+            />
+            <Legend />
+            {data.some(point => point.expected !== undefined) && (
+                <Line type="monotone" dataKey="expected" name="expected" stroke={EXPECTED_COLOR} strokeWidth={2} strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+            )}
+            <Line type="monotone" dataKey="observed" name="observed" stroke={OBSERVED_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+        </ComposedChart>
+    );
+};
+
+// Observed quantiles against the model's; points on the diagonal mean the model fits and
+// points bending away at the ends show heavier or lighter tails
+const QqChart: React.FC<{ data: QqPoint[]; logScale: boolean }> = ({ data, logScale }) => {
+    const plotted = data.filter(point =>
+        Number.isFinite(point.theoretical) && Number.isFinite(point.observed) &&
+        (!logScale || (point.theoretical > 0 && point.observed > 0)));
+    const values = plotted.flatMap(point => [point.theoretical, point.observed]);
+    const low = Math.min(...values);
+    const high = Math.max(...values);
+    return (
+        <ComposedChart data={plotted} margin={{ top: 20, right: 30, left: 40, bottom: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+                dataKey="theoretical"
+                {...valueAxisProps(logScale)}
+                domain={[low, high]}
+                label={{ value: 'Expected quantile', position: 'bottom', offset: 0 }}
+            />
+            <YAxis
+                dataKey="observed"
+                {...valueAxisProps(logScale)}
+                domain={[low, high]}
+                label={{ value: 'Observed quantile', angle: -90, position: 'insideLeft', offset: 10 }}
+            />
+            <Tooltip
+                formatter={(value: number, name: string) => [formatValue(value), name]}
+                labelFormatter={() => ''}
+            />
+            {plotted.length > 0 && (
+                <ReferenceLine
+                    segment={[{ x: low, y: low }, { x: high, y: high }]}
+                    stroke="#666"
+                    strokeDasharray="3 3"
+                    ifOverflow="hidden"
+                />
+            )}
+            <Scatter dataKey="observed" name="Observed" fill={OBSERVED_COLOR} isAnimationActive={false} />
+        </ComposedChart>
+    );
+};
+
 export const DistributionChart: React.FC<DistributionChartProps> = ({
     chartData,
     domain,
     maxValuePoints,
     sigmaLines,
     selectedTrialId,
+    confidenceBands = [],
+    percentileLines = [],
+    logScale = false,
+    mode = 'histogram',
+    cdfData = [],
+    spectrumData = [],
+    qqData = [],
 }) => {
+    const isPlottable = (x: number) => !logScale || x > 0;
+    const plottedData = logScale ? chartData.filter(item => item.value > 0) : chartData;
+
     // Highlight selected trial's max value point
-    const highlightedPoints = maxValuePoints.map(point => ({
+    const highlightedPoints = maxValuePoints.filter(point => isPlottable(point.x)).map(point => ({
         ...point,
         opacity: point.trialId === selectedTrialId ? 1 : point.opacity,
         strokeWidth: point.trialId === selectedTrialId ? 3 : 2
@@ -49,6 +207,9 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({
         if (name === 'expected') {
             return [typeof value === 'number' ? value.toFixed(2) : '0', 'Expected Distribution'];
         }
+        if (name === 'kde') {
+            return [typeof value === 'number' ? value.toFixed(2) : '0', 'Kernel Density Estimate'];
+        }
         if (name === 'maxValues') {
             return [typeof value === 'number' ? value.toFixed(2) : '0', 'Trial Maximum'];
         }
@@ -65,92 +226,155 @@ export const DistributionChart: React.FC<DistributionChartProps> = ({
         <>
             <Card>
                 <CardHeader>
-                    <CardTitle>Distribution Analysis</CardTitle>
+                    <CardTitle>Distribution Analysis{mode !== 'histogram' && ` · ${DISTRIBUTION_CHART_MODES[mode]}`}</CardTitle>
                 </CardHeader>
                 <CardContent className="h-96">
-                    <ResponsiveContainer width="100%" height="100%">
-                        <ComposedChart
-                            data={chartData}
-                            margin={{ top: 20, right: 30, left: 40, bottom: 20 }}
-                        >
-                            <CartesianGrid strokeDasharray="3 3" />
-                            <XAxis
-                                dataKey="value"
-                                type="number"
-                                domain={domain}
-                                label={{ value: 'Benchmark Value', position: 'bottom', offset: 0 }}
-                            />
-                            <YAxis
-                                yAxisId="left"
-                                label={{
-                                    value: 'Count',
-                                    angle: -90,
-                                    position: 'insideLeft',
-                                    offset: 10
-                                }}
-                            />
-                            <YAxis
-                                yAxisId="right"
-                                orientation="right"
-                            />
-                            <Tooltip<ValueType, NameType>
-                                formatter={formatTooltip}
-                                labelFormatter={formatTooltipLabel}
-                            />
-                            <Legend />
-
-                            <Bar
-                                id="expected-distribution"
-                                dataKey="expected"
-                                fill="#8884d8"
-                                opacity={0.5}
-                                name="expected"
-                                key={`expected-${selectedTrialId || 'all'}`}
-                                yAxisId="left"
-                            />
-
-                            <Bar
-                                id="observed-distribution"
-                                dataKey="observed"
-                                fill="#82ca9d"
-                                opacity={0.8}
-                                name="observed"
-                                key={`observed-${selectedTrialId || 'all'}`}
-                                yAxisId="right"
-                                offset={1}
-                            />
-
-                            {highlightedPoints.map((point) => (
-                                <ReferenceLine
-                                    key={point.trialId}
-                                    x={point.x}
-                                    yAxisId="left"
-                                    stroke={point.trialId === selectedTrialId ? '#ff0000' : '#ff4444'}
-                                    strokeWidth={point.strokeWidth}
-                                    opacity={point.opacity}
-                                    label={{
-                                        value: '×',
-                                        position: 'top',
-                                        fill: point.trialId === selectedTrialId ? '#ff0000' : '#ff4444',
-                                        fontSize: point.trialId === selectedTrialId ? 18 : 16,
-                                        opacity: point.opacity
-                                    }}
-                                />
-                            ))}
-
-                            {sigmaLines.map(line => (
-                                <ReferenceLine
-                                    key={line.label}
-                                    yAxisId="left"
-                                    x={line.value}
-                                    stroke="#666"
-                                    strokeDasharray="3 3"
-                                    label={line.label}
-                                    position="start"
-                                />
-                            ))}
-                        </ComposedChart>
-                    </ResponsiveContainer>
+                    {mode === 'qq' && qqData.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">
+                            A Q-Q plot needs an expected distribution. These trials were imported without a model to compare against.
+                        </p>
+                    ) : (
+                        <ResponsiveContainer width="100%" height="100%">
+                            {mode === 'cdf' ? (
+                                <CdfChart data={cdfData} logScale={logScale} />
+                            ) : mode === 'spectrum' ? (
+                                <SpectrumChart data={spectrumData} logScale={logScale} />
+                            ) : mode === 'qq' ? (
+                                <QqChart data={qqData} logScale={logScale} />
+                            ) : (
+                                <ComposedChart
+                                    data={plottedData}
+                                    margin={{ top: 20, right: 30, left: 40, bottom: 20 }}
+                                >
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis
+                                        dataKey="value"
+                                        type="number"
+                                        domain={domain}
+                                        scale={logScale ? 'log' : 'auto'}
+                                        allowDataOverflow={logScale}
+                                        tickFormatter={logScale ? (value: number) => value.toPrecision(2) : undefined}
+                                        label={{ value: logScale ? 'Benchmark Value (log scale)' : 'Benchmark Value', position: 'bottom', offset: 0 }}
+                                    />
+                                    <YAxis
+                                        yAxisId="left"
+                                        label={{
+                                            value: 'Count',
+                                            angle: -90,
+                                            position: 'insideLeft',
+                                            offset: 10
+                                        }}
+                                    />
+                                    <YAxis
+                                        yAxisId="right"
+                                        orientation="right"
+                                    />
+                                    <Tooltip<ValueType, NameType>
+                                        formatter={formatTooltip}
+                                        labelFormatter={formatTooltipLabel}
+                                    />
+                                    <Legend />
+
+                                    {confidenceBands.filter(band => isPlottable(band.lower)).map(band => (
+                                        <ReferenceArea
+                                            key={`ci-${band.statistic}`}
+                                            yAxisId="left"
+                                            x1={band.lower}
+                                            x2={band.upper}
+                                            fill={CONFIDENCE_BAND_COLORS[band.statistic]}
+                                            fillOpacity={0.12}
+                                            stroke={CONFIDENCE_BAND_COLORS[band.statistic]}
+                                            strokeOpacity={0.3}
+                                            ifOverflow="hidden"
+                                            label={{
+                                                value: band.label,
+                                                position: 'insideTop',
+                                                fill: CONFIDENCE_BAND_COLORS[band.statistic],
+                                                fontSize: 11
+                                            }}
+                                        />
+                                    ))}
+
+                                    <Bar
+                                        id="expected-distribution"
+                                        dataKey="expected"
+                                        fill="#8884d8"
+                                        opacity={0.5}
+                                        name="expected"
+                                        key={`expected-${selectedTrialId || 'all'}`}
+                                        yAxisId="left"
+                                    />
+
+                                    <Bar
+                                        id="observed-distribution"
+                                        dataKey="observed"
+                                        fill="#82ca9d"
+                                        opacity={0.8}
+                                        name="observed"
+                                        key={`observed-${selectedTrialId || 'all'}`}
+                                        yAxisId="right"
+                                        offset={1}
+                                    />
+
+                                    {plottedData.some(item => item.kde !== undefined) && (
+                                        <Line
+                                            id="kde-curve"
+                                            type="monotone"
+                                            dataKey="kde"
+                                            name="kde"
+                                            stroke="#0F766E"
+                                            strokeWidth={2}
+                                            dot={false}
+                                            yAxisId="right"
+                                            isAnimationActive={false}
+                                            connectNulls
+                                        />
+                                    )}
+
+                                    {highlightedPoints.map((point) => (
+                                        <ReferenceLine
+                                            key={point.trialId}
+                                            x={point.x}
+                                            yAxisId="left"
+                                            stroke={point.trialId === selectedTrialId ? '#ff0000' : '#ff4444'}
+                                            strokeWidth={point.strokeWidth}
+                                            opacity={point.opacity}
+                                            label={{
+                                                value: '×',
+                                                position: 'top',
+                                                fill: point.trialId === selectedTrialId ? '#ff0000' : '#ff4444',
+                                                fontSize: point.trialId === selectedTrialId ? 18 : 16,
+                                                opacity: point.opacity
+                                            }}
+                                        />
+                                    ))}
+
+                                    {percentileLines.filter(line => isPlottable(line.value)).map(line => (
+                                        <ReferenceLine
+                                            key={`percentile-${line.label}`}
+                                            yAxisId="left"
+                                            x={line.value}
+                                            stroke="#7C3AED"
+                                            strokeDasharray="6 3"
+                                            label={{ value: line.label, position: 'insideTopRight', fill: '#7C3AED', fontSize: 11 }}
+                                        />
+                                    ))}
+
+                                    {sigmaLines.filter(line => isPlottable(line.value)).map(line => (
+                                        <ReferenceLine
+                                            key={line.label}
+                                            yAxisId="left"
+                                            x={line.value}
+                                            stroke="#666"
+                                            strokeDasharray="3 3"
+                                            label={line.label}
+                                            position="start"
+                                        />
+                                    ))}
+                                </ComposedChart>
+                            )}
+                        </ResponsiveContainer>
+                    )}
                 </CardContent>
             </Card>
         </>
@@ -173,6 +397,10 @@ export const DistributionChartGuide: React.FC<{}> = ({ }) => {
                         <div className="w-4 h-4 bg-[#82ca9d] opacity-80 rounded" />
                         <span className="text-sm">Current trial samples</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-4 h-0.5 bg-[#0F766E]" />
+                        <span className="text-sm">Kernel density estimate (when enabled), scaled to bucket counts</span>
+                    </div>
                     <div className="flex items-center gap-2">
                         <div className="w-4 h-4 flex items-center justify-center text-red-500 font-bold">×</div>
                         <span className="text-sm">Maximum values (darker = newer)</span>
@@ -187,10 +415,19 @@ export const DistributionChartGuide: React.FC<{}> = ({ }) => {
                         <div className="w-4 h-4 flex items-center justify-center font-serif italic">μ</div>
                         <span className="text-sm">Mean value</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-4 h-4 rounded border" style={{ backgroundColor: `${CONFIDENCE_BAND_COLORS.mean}33`, borderColor: CONFIDENCE_BAND_COLORS.mean }} />
+                        <span className="text-sm">95% bootstrap confidence intervals (mean, median, p90, p99, max)</span>
+                    </div>
                     <div className="md:col-span-2">
                         <p className="text-sm text-muted-foreground mt-2">
                             The darker the maximum value marker (×), the more recent the trial. This helps track how maximum values evolve across trials.
                         </p>
+                        <p className="text-sm text-muted-foreground mt-2">
+                            Histograms hide the tail. The CDF shows how far the observed curve falls short of 1 at high values,
+                            the percentile view spreads p90, p99, p99.9… evenly so each extra nine gets equal room, and the Q-Q plot
+                            bends away from the diagonal wherever the data's tail is heavier or lighter than expected.
+                        </p>
                     </div>
                 </div>
             </CardContent>
@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { TrialGenerationConfig, calculateBucketsAndDomain, resolveDistribution } from '@/lib/trialGeneration';
+
+interface ExpectedDistributionPreviewProps {
+    config: TrialGenerationConfig;
+}
+
+// Expected per-trial histogram for a (possibly unsaved) configuration
+export const ExpectedDistributionPreview: React.FC<ExpectedDistributionPreviewProps> = ({ config }) => {
+    const { data, domain } = useMemo(() => {
+        const { buckets, domain } = calculateBucketsAndDomain(resolveDistribution(config), config.samplesPerTrial);
+        return {
+            data: buckets.map(b => ({ value: b.value, expected: b.expected })),
+            domain,
+        };
+    }, [config]);
+
+    return (
+        <div className="h-40">
+            <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="value" type="number" domain={domain} tickFormatter={(v: number) => v.toFixed(0)} />
+                    <YAxis width={40} tickFormatter={(v: number) => v.toFixed(1)} />
+                    <Tooltip
+                        formatter={(value) => [typeof value === 'number' ? value.toFixed(2) : value, 'Expected count']}
+                        labelFormatter={(label) => typeof label === 'number' ? label.toFixed(1) : label}
+                    />
+                    <Area
+                        type="monotone"
+                        dataKey="expected"
+                        stroke="#8884d8"
+                        fill="#8884d8"
+                        fillOpacity={0.4}
+                        isAnimationActive={false}
+                    />
+                </AreaChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { KDE_BANDWIDTH_RULES, KdeBandwidthRule, KdeOptions } from '@/lib/density';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface KdeControlsProps {
+    enabled: boolean;
+    onEnabledChange: (enabled: boolean) => void;
+    options: KdeOptions;
+    onOptionsChange: (options: KdeOptions) => void;
+    // Bandwidth actually used, in sample units, once the estimate is computed
+    bandwidth: number | null;
+}
+
+const ADJUST_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+export const KdeControls: React.FC<KdeControlsProps> = ({
+    enabled,
+    onEnabledChange,
+    options,
+    onOptionsChange,
+    bandwidth,
+}) => (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center gap-1">
+            <input
+                type="checkbox"
+                checked={enabled}
+                onChange={(e) => onEnabledChange(e.target.checked)}
+            />
+            KDE
+        </label>
+        {enabled && (
+            <>
+                <Select
+                    value={options.rule}
+                    onValueChange={(value) => onOptionsChange({ ...options, rule: value as KdeBandwidthRule })}
+                >
+                    <SelectTrigger className="w-32" title={KDE_BANDWIDTH_RULES[options.rule].description}>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {(Object.keys(KDE_BANDWIDTH_RULES) as KdeBandwidthRule[]).map(rule => (
+                            <SelectItem key={rule} value={rule}>{KDE_BANDWIDTH_RULES[rule].label}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select
+                    value={String(options.adjust)}
+                    onValueChange={(value) => onOptionsChange({ ...options, adjust: Number(value) })}
+                >
+                    <SelectTrigger className="w-24" aria-label="Bandwidth multiplier">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {ADJUST_OPTIONS.map(adjust => (
+                            <SelectItem key={adjust} value={String(adjust)}>×{adjust}</SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                {bandwidth !== null && (
+                    <span className="text-xs text-muted-foreground">h = {bandwidth.toPrecision(3)}</span>
+                )}
+            </>
+        )}
+    </div>
+);
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { CartesianGrid, ComposedChart, ErrorBar, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, TooltipProps, XAxis, YAxis } from 'recharts';
+import { BOOTSTRAP_STATISTIC_LABELS } from '@/lib/bootstrap';
+import { TrendPoint, isSignificantChange } from '@/lib/trend';
+
+export const TREND_STATISTICS = ['median', 'p99', 'max'] as const;
+
+export type TrendStatistic = typeof TREND_STATISTICS[number];
+
+export const TREND_COLORS: Record<TrendStatistic, string> = {
+    median: '#2563EB',
+    p99: '#D97706',
+    max: '#DC2626',
+};
+
+const VERDICT_COLORS = {
+    regression: '#DC2626',
+    improvement: '#059669',
+};
+
+interface TrendChartProps {
+    points: TrendPoint[];
+    statistics: TrendStatistic[];
+    currentVersionId: string | null;
+    onSelectVersion: (versionId: string) => void;
+}
+
+interface TrendRow {
+    versionId: string;
+    name: string;
+    point: TrendPoint;
+    [key: string]: unknown;
+}
+
+interface DotProps {
+    cx?: number;
+    cy?: number;
+    payload?: TrendRow;
+}
+
+// Significant changes from the previous version get a larger dot ringed in the verdict color
+const renderDot = (color: string) => ({ cx, cy, payload }: DotProps) => {
+    if (cx === undefined || cy === undefined || !payload) return <g />;
+    const verdict = payload.point.changeFromPrevious?.verdict;
+    const significant = isSignificantChange(payload.point);
+    return (
+        <circle
+            key={`${payload.versionId}-${color}`}
+            cx={cx}
+            cy={cy}
+            r={significant ? 6 : 3}
+            fill={color}
+            stroke={significant && (verdict === 'regression' || verdict === 'improvement') ? VERDICT_COLORS[verdict] : color}
+            strokeWidth={significant ? 3 : 1}
+            style={{ cursor: 'pointer' }}
+        />
+    );
+};
+
+const TrendTooltip: React.FC<TooltipProps<number, string>> = ({ active, payload }) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const row = payload[0].payload as TrendRow;
+    const { point } = row;
+    const change = point.changeFromPrevious;
+
+    return (
+        <div className="bg-white p-3 border rounded shadow text-sm space-y-1">
+            <div className="font-medium">{point.version.name}</div>
+            <div className="text-gray-500">{point.trialCount} trials · {point.sampleCount.toLocaleString()} samples</div>
+            {TREND_STATISTICS.map(stat => (
+                <div key={stat}>
+                    {BOOTSTRAP_STATISTIC_LABELS[stat]}: {point.summary[stat].estimate.toFixed(2)}{' '}
+                    <span className="text-gray-500">
+                        [{point.summary[stat].lower.toFixed(2)}, {point.summary[stat].upper.toFixed(2)}]
+                    </span>
+                </div>
+            ))}
+            {change && (
+                <div className={isSignificantChange(point) ? 'font-medium' : 'text-gray-500'}>
+                    Mean {change.relativeChange >= 0 ? '+' : ''}{(100 * change.relativeChange).toFixed(2)}% vs previous
+                    (p = {change.pValue.toPrecision(2)}, {change.verdict})
+                </div>
+            )}
+            <div className="text-xs text-gray-400">Click to open this version</div>
+        </div>
+    );
+};
+
+export const TrendChart: React.FC<TrendChartProps> = ({
+    points,
+    statistics,
+    currentVersionId,
+    onSelectVersion,
+}) => {
+    const data = useMemo((): TrendRow[] => points.map(point => {
+        const row: TrendRow = { versionId: point.version.id, name: point.version.name, point };
+        TREND_STATISTICS.forEach(stat => {
+            const { estimate, lower, upper } = point.summary[stat];
+            row[stat] = estimate;
+            row[`${stat}Error`] = [estimate - lower, upper - estimate];
+        });
+        return row;
+    }), [points]);
+
+    const namesById = useMemo(() => new Map(points.map(p => [p.version.id, p.version.name])), [points]);
+
+    if (data.length === 0) {
+        return (
+            <div className="flex justify-center items-center p-8 bg-gray-50 rounded-lg">
+                <p className="text-gray-500">No version has trials for this experiment yet.</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart
+                    data={data}
+                    margin={{ top: 10, right: 20, left: 0, bottom: 10 }}
+                    onClick={(state) => {
+                        if (state?.activeLabel) onSelectVersion(String(state.activeLabel));
+                    }}
+                >
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="versionId" tickFormatter={(id: string) => namesById.get(id) ?? id} />
+                    <YAxis domain={['auto', 'auto']} tickFormatter={(v: number) => v.toFixed(0)} />
+                    <Tooltip content={<TrendTooltip />} />
+                    <Legend verticalAlign="top" />
+                    {currentVersionId && namesById.has(currentVersionId) && (
+                        <ReferenceLine x={currentVersionId} stroke="#9CA3AF" strokeDasharray="4 4" label={{ value: 'current', position: 'insideTop', fontSize: 12 }} />
+                    )}
+                    {statistics.map(stat => (
+                        <Line
+                            key={stat}
+                            type="linear"
+                            dataKey={stat}
+                            name={BOOTSTRAP_STATISTIC_LABELS[stat]}
+                            stroke={TREND_COLORS[stat]}
+                            dot={renderDot(TREND_COLORS[stat])}
+                            activeDot={{ r: 6, style: { cursor: 'pointer' } }}
+                            isAnimationActive={false}
+                        >
+                            <ErrorBar dataKey={`${stat}Error`} width={4} stroke={TREND_COLORS[stat]} direction="y" />
+                        </Line>
+                    ))}
+                </ComposedChart>
+            </ResponsiveContainer>
+        </div>
+    );
+};
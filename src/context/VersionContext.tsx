@@ -1,6 +1,9 @@
 // VersionContext.tsx
-import React, { createContext, useReducer, useContext, ReactNode, useCallback } from 'react';
-import { generateVersionId } from "../lib/versionId";
+import React, { createContext, useReducer, useContext, ReactNode, useCallback, useEffect, useRef, useState } from 'react';
+import { generateVersionId, parseVersionId } from "../lib/versionId";
+import { loadPersistedState, savePersistedState } from "../lib/persistence";
+import { UrlState, readUrlState, writeUrlState } from "../lib/urlState";
+import { mergeRunTrials } from "../lib/runs";
 import { TargetVersion, Trial, Experiment, ExperimentRun } from "@/types";
 
 // Action types are defined through the union type below
@@ -35,6 +38,22 @@ interface AddExperimentAction {
   payload: Partial<Experiment>;
 }
 
+interface UpdateVersionAction {
+  type: 'UPDATE_VERSION';
+  payload: {
+    versionId: string;
+    changes: Partial<Omit<TargetVersion, 'id'>>;
+  };
+}
+
+interface UpdateExperimentAction {
+  type: 'UPDATE_EXPERIMENT';
+  payload: {
+    experimentId: string;
+    changes: Partial<Omit<Experiment, 'id'>>;
+  };
+}
+
 interface AddRunAction {
   type: 'ADD_RUN';
   payload: Partial<ExperimentRun>;
@@ -48,6 +67,74 @@ interface AddTrialAction {
   };
 }
 
+interface AddTrialsAction {
+  type: 'ADD_TRIALS';
+  payload: {
+    runId: string;
+    trials: Trial[];
+  };
+}
+
+interface SetCurrentRunAction {
+  type: 'SET_CURRENT_RUN';
+  payload: string; // runId
+}
+
+interface UpdateRunAction {
+  type: 'UPDATE_RUN';
+  payload: {
+    runId: string;
+    changes: Partial<Pick<ExperimentRun, 'metadata'>>;
+  };
+}
+
+interface MergeRunsAction {
+  type: 'MERGE_RUNS';
+  payload: {
+    targetRunId: string;
+    sourceRunIds: string[];
+  };
+}
+
+interface RetagVersionAction {
+  type: 'RETAG_VERSION';
+  payload: {
+    versionId: string;
+    tag: string | undefined; // undefined removes the tag
+  };
+}
+
+interface RemoveVersionAction {
+  type: 'REMOVE_VERSION';
+  payload: string; // versionId
+}
+
+interface RemoveExperimentAction {
+  type: 'REMOVE_EXPERIMENT';
+  payload: string; // experimentId
+}
+
+interface RemoveRunAction {
+  type: 'REMOVE_RUN';
+  payload: string; // runId
+}
+
+interface RemoveTrialAction {
+  type: 'REMOVE_TRIAL';
+  payload: {
+    runId: string;
+    trialId: string;
+  };
+}
+
+interface UndoRemovalAction {
+  type: 'UNDO_REMOVAL';
+}
+
+interface DismissRemovalAction {
+  type: 'DISMISS_REMOVAL';
+}
+
 interface ResetAppAction {
   type: 'RESET_APP';
   payload: {
@@ -64,10 +151,43 @@ type Action =
   | SetCurrentExperimentAction
   | AddVersionAction
   | AddExperimentAction
+  | UpdateVersionAction
+  | UpdateExperimentAction
   | AddRunAction
   | AddTrialAction
+  | AddTrialsAction
+  | SetCurrentRunAction
+  | UpdateRunAction
+  | MergeRunsAction
+  | RetagVersionAction
+  | RemoveVersionAction
+  | RemoveExperimentAction
+  | RemoveRunAction
+  | RemoveTrialAction
+  | UndoRemovalAction
+  | DismissRemovalAction
   | ResetAppAction;
 
+// An item together with the position it was removed from
+interface Indexed<T> {
+  item: T;
+  index: number;
+}
+
+// Everything the last destructive action removed, so it can be undone
+export interface RemovalRecord {
+  description: string;
+  versions: Indexed<TargetVersion>[];
+  experiments: Indexed<Experiment>[];
+  runs: Indexed<ExperimentRun>[];
+  trials: (Indexed<Trial> & { runId: string })[];
+  // Runs the action changed rather than removed, as they were before it
+  updatedRuns: ExperimentRun[];
+  currentVersionId: string | null;
+  currentExperimentId: string | null;
+  currentRunId: string | null;
+}
+
 // Application state structure
 interface State {
   versions: TargetVersion[];
@@ -75,6 +195,10 @@ interface State {
   runs: ExperimentRun[];
   currentVersionId: string | null;
   currentExperimentId: string | null;
+  // Explicitly selected run; without one the most recently started run of the pair is shown
+  currentRunId: string | null;
+  // Only the most recent removal can be undone
+  lastRemoval: RemovalRecord | null;
   // Computed values that are derived from the state
   // These are stored for quick access but are always computed from the base state
   derivedState: {
@@ -91,6 +215,12 @@ interface State {
   };
 }
 
+export interface UnresolvedLink {
+  url: UrlState;
+  // Still unresolved after loading the link's seeded dataset, so it points at data added later
+  afterDatasetLoad: boolean;
+}
+
 // Functions exposed by the context
 interface VersionContextType {
   // State accessors
@@ -100,6 +230,11 @@ interface VersionContextType {
   currentVersion: TargetVersion | null;
   currentExperiment: Experiment | null;
   currentRun: ExperimentRun | null;
+  // True once persisted data (if any) has been loaded into the store
+  isHydrated: boolean;
+  lastRemoval: RemovalRecord | null;
+  // A shared link whose version, experiment, run or trial isn't in the loaded data
+  unresolvedLink: UnresolvedLink | null;
 
   // Actions
   initialize: (data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => void;
@@ -107,9 +242,31 @@ interface VersionContextType {
   setCurrentExperiment: (experimentId: string) => void;
   addVersion: (versionData: Partial<TargetVersion>) => void;
   addExperiment: (experimentData: Partial<Experiment>) => void;
+  updateVersion: (versionId: string, changes: Partial<Omit<TargetVersion, 'id'>>) => void;
+  updateExperiment: (experimentId: string, changes: Partial<Omit<Experiment, 'id'>>) => void;
+  // A run for the current version/experiment also becomes the current run
   addRun: (runData: Partial<ExperimentRun>) => void;
+  // Also switches to the run's version and experiment
+  setCurrentRun: (runId: string) => void;
+  updateRun: (runId: string, changes: Partial<Pick<ExperimentRun, 'metadata'>>) => void;
+  // Moves the sources' trials into the target run and removes the sources
+  mergeRuns: (targetRunId: string, sourceRunIds: string[]) => void;
   addTrial: (runId: string, trial: Trial) => void;
+  // Appends a whole batch with a single state update
+  addTrials: (runId: string, trials: Trial[]) => void;
+  // Changes the semver tag, which is part of the version ID, and re-points its runs
+  retagVersion: (versionId: string, tag: string | undefined) => void;
+  // Removing a version or experiment also removes its runs
+  removeVersion: (versionId: string) => void;
+  removeExperiment: (experimentId: string) => void;
+  removeRun: (runId: string) => void;
+  removeTrial: (runId: string, trialId: string) => void;
+  undoRemoval: () => void;
+  dismissRemoval: () => void;
   resetApp: (data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => void;
+  // Replaces the data with the link's dataset and applies the link's selection to it
+  loadLinkedDataset: (data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => void;
+  dismissUnresolvedLink: () => void;
 
   // Selectors
   getVersion: (versionId: string) => TargetVersion | null;
@@ -130,7 +287,8 @@ const computeDerivedState = (
   experiments: Experiment[],
   runs: ExperimentRun[],
   currentVersionId: string | null,
-  currentExperimentId: string | null
+  currentExperimentId: string | null,
+  currentRunId: string | null = null
 ) => {
   // Build maps for O(1) lookups
   const versionMap = new Map<string, TargetVersion>();
@@ -187,8 +345,11 @@ const computeDerivedState = (
     const versionExperimentRuns = runs.filter(
       run => run.versionId === currentVersionId && run.experimentId === currentExperimentId
     );
-    // Get the most recent run if multiple exist
-    if (versionExperimentRuns.length > 0) {
+    // Use the selected run, otherwise the most recently started one
+    const selectedRun = versionExperimentRuns.find(run => run.id === currentRunId);
+    if (selectedRun) {
+      currentRun = selectedRun;
+    } else if (versionExperimentRuns.length > 0) {
       currentRun = versionExperimentRuns.reduce(
         (latest, run) => run.timestamp > latest.timestamp ? run : latest,
         versionExperimentRuns[0]
@@ -210,9 +371,58 @@ const computeDerivedState = (
   };
 };
 
+// Default experiment for a version: the first one it has runs for, then 'idle', then the first defined
+const pickDefaultExperiment = (
+  versionId: string,
+  experiments: Experiment[],
+  runs: ExperimentRun[]
+): string | null => {
+  const withRuns = runs.find(r => r.versionId === versionId && experiments.some(e => e.id === r.experimentId));
+  if (withRuns) return withRuns.experimentId;
+  const idleExperiment = experiments.find(e => e.name.toLowerCase() === 'idle');
+  return idleExperiment?.id ?? experiments[0]?.id ?? null;
+};
+
+// Split a list into the items kept and the removed ones with their positions
+const partitionIndexed = <T,>(list: T[], remove: (item: T) => boolean): [T[], Indexed<T>[]] => {
+  const kept: T[] = [];
+  const removed: Indexed<T>[] = [];
+  list.forEach((item, index) => {
+    if (remove(item)) {
+      removed.push({ item, index });
+    } else {
+      kept.push(item);
+    }
+  });
+  return [kept, removed];
+};
+
+// Put removed items back at their old positions, skipping any whose ID has been reused since
+const restoreIndexed = <T extends { id: string },>(list: T[], removed: Indexed<T>[]): T[] => {
+  const result = [...list];
+  [...removed].sort((a, b) => a.index - b.index).forEach(({ item, index }) => {
+    if (!result.some(existing => existing.id === item.id)) {
+      result.splice(Math.min(index, result.length), 0, item);
+    }
+  });
+  return result;
+};
+
+const emptyRemoval = (state: State, description: string): RemovalRecord => ({
+  description,
+  versions: [],
+  experiments: [],
+  runs: [],
+  trials: [],
+  updatedRuns: [],
+  currentVersionId: state.currentVersionId,
+  currentExperimentId: state.currentExperimentId,
+  currentRunId: state.currentRunId
+});
+
 // Create reducer function with strong typing
 function versionReducer(state: State, action: Action): State {
-  console.log('🔄 Reducer action:', action.type, action.payload);
+  console.log('🔄 Reducer action:', action.type, 'payload' in action ? action.payload : '');
 
   switch (action.type) {
     case 'INITIALIZE': {
@@ -244,6 +454,8 @@ function versionReducer(state: State, action: Action): State {
         runs,
         currentVersionId,
         currentExperimentId,
+        currentRunId: null,
+        lastRemoval: null,
         derivedState: computeDerivedState(versions, experiments, runs, currentVersionId, currentExperimentId)
       };
 
@@ -288,6 +500,7 @@ function versionReducer(state: State, action: Action): State {
         ...state,
         currentVersionId: versionId,
         currentExperimentId,
+        currentRunId: null,
         derivedState: computeDerivedState(
           state.versions,
           state.experiments,
@@ -319,6 +532,7 @@ function versionReducer(state: State, action: Action): State {
       const newState = {
         ...state,
         currentExperimentId: experimentId,
+        currentRunId: null,
         derivedState: computeDerivedState(
           state.versions,
           state.experiments,
@@ -345,6 +559,7 @@ function versionReducer(state: State, action: Action): State {
         id: versionData.id || generateVersionId(),
         name: versionData.name || `Version ${state.versions.length + 1}`,
         timestamp: versionData.timestamp || Date.now(),
+        perturbation: versionData.perturbation,
       };
 
       // Create a new versions array
@@ -366,6 +581,7 @@ function versionReducer(state: State, action: Action): State {
         versions: newVersions,
         currentVersionId: newVersion.id,
         currentExperimentId,
+        currentRunId: null,
         derivedState: computeDerivedState(
           newVersions,
           state.experiments,
@@ -393,6 +609,7 @@ function versionReducer(state: State, action: Action): State {
         description: experimentData.description || '',
         parameters: experimentData.parameters || {},
         color: experimentData.color || '#808080',
+        profile: experimentData.profile,
       };
 
       // Create a new experiments array
@@ -406,7 +623,8 @@ function versionReducer(state: State, action: Action): State {
           newExperiments,
           state.runs,
           state.currentVersionId,
-          state.currentExperimentId
+          state.currentExperimentId,
+          state.currentRunId
         )
       };
 
@@ -418,6 +636,62 @@ function versionReducer(state: State, action: Action): State {
       return newState;
     }
 
+    case 'UPDATE_VERSION': {
+      const { versionId, changes } = action.payload;
+
+      if (!state.derivedState.versionMap.has(versionId)) {
+        console.error('❌ Cannot update version, not found:', versionId);
+        return state;
+      }
+
+      const newVersions = state.versions.map(v =>
+        v.id === versionId ? { ...v, ...changes } : v
+      );
+
+      console.log('✏️ Updated version:', versionId, Object.keys(changes));
+
+      return {
+        ...state,
+        versions: newVersions,
+        derivedState: computeDerivedState(
+          newVersions,
+          state.experiments,
+          state.runs,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'UPDATE_EXPERIMENT': {
+      const { experimentId, changes } = action.payload;
+
+      if (!state.derivedState.experimentMap.has(experimentId)) {
+        console.error('❌ Cannot update experiment, not found:', experimentId);
+        return state;
+      }
+
+      const newExperiments = state.experiments.map(e =>
+        e.id === experimentId ? { ...e, ...changes } : e
+      );
+
+      console.log('✏️ Updated experiment:', experimentId, Object.keys(changes));
+
+      return {
+        ...state,
+        experiments: newExperiments,
+        derivedState: computeDerivedState(
+          state.versions,
+          newExperiments,
+          state.runs,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
     case 'ADD_RUN': {
       const runData = action.payload;
 
@@ -439,20 +713,28 @@ function versionReducer(state: State, action: Action): State {
         experimentId: runData.experimentId,
         trials: runData.trials || [],
         timestamp: runData.timestamp || Date.now(),
+        metadata: runData.metadata,
       };
 
       // Create a new runs array
       const newRuns = [...state.runs, newRun];
 
+      // A new run for what is showing becomes the run trials are added to
+      const isCurrentPair = newRun.versionId === state.currentVersionId &&
+        newRun.experimentId === state.currentExperimentId;
+      const currentRunId = isCurrentPair ? newRun.id : state.currentRunId;
+
       const newState = {
         ...state,
         runs: newRuns,
+        currentRunId,
         derivedState: computeDerivedState(
           state.versions,
           state.experiments,
           newRuns,
           state.currentVersionId,
-          state.currentExperimentId
+          state.currentExperimentId,
+          currentRunId
         )
       };
 
@@ -479,11 +761,10 @@ function versionReducer(state: State, action: Action): State {
       // Create a new runs array with the updated run
       const newRuns = state.runs.map((run, index) => {
         if (index === runIndex) {
-          // Deep clone the run and add the trial
+          // Deep clone the run and add the trial; the run keeps its start time
           return {
             ...run,
-            trials: [...run.trials, trial],
-            timestamp: Date.now()
+            trials: [...run.trials, trial]
           };
         }
         return run;
@@ -498,7 +779,8 @@ function versionReducer(state: State, action: Action): State {
           state.experiments,
           newRuns,
           state.currentVersionId,
-          state.currentExperimentId
+          state.currentExperimentId,
+          state.currentRunId
         )
       };
 
@@ -514,6 +796,389 @@ function versionReducer(state: State, action: Action): State {
       return newState;
     }
 
+    case 'ADD_TRIALS': {
+      const { runId, trials } = action.payload;
+
+      const runIndex = state.runs.findIndex(r => r.id === runId);
+      if (runIndex === -1) {
+        console.error('❌ Cannot add trials, run not found:', runId);
+        return state;
+      }
+      if (trials.length === 0) return state;
+
+      const newRuns = state.runs.map((run, index) =>
+        index === runIndex
+          ? { ...run, trials: [...run.trials, ...trials] }
+          : run
+      );
+
+      const newState = {
+        ...state,
+        runs: newRuns,
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          newRuns,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+
+      console.log('✅ Trials added:', {
+        count: trials.length,
+        toRunId: runId,
+        newTrialCount: newState.runs[runIndex].trials.length
+      });
+
+      return newState;
+    }
+
+    case 'SET_CURRENT_RUN': {
+      const runId = action.payload;
+      const run = state.derivedState.runMap.get(runId);
+
+      if (!run) {
+        console.error('❌ Run not found:', runId);
+        return state;
+      }
+
+      console.log('👉 Selected run:', runId);
+
+      return {
+        ...state,
+        currentVersionId: run.versionId,
+        currentExperimentId: run.experimentId,
+        currentRunId: runId,
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          state.runs,
+          run.versionId,
+          run.experimentId,
+          runId
+        )
+      };
+    }
+
+    case 'UPDATE_RUN': {
+      const { runId, changes } = action.payload;
+
+      if (!state.derivedState.runMap.has(runId)) {
+        console.error('❌ Cannot update run, not found:', runId);
+        return state;
+      }
+
+      const newRuns = state.runs.map(r => r.id === runId ? { ...r, ...changes } : r);
+
+      console.log('✏️ Updated run:', runId, Object.keys(changes));
+
+      return {
+        ...state,
+        runs: newRuns,
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          newRuns,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'MERGE_RUNS': {
+      const { targetRunId, sourceRunIds } = action.payload;
+      const target = state.derivedState.runMap.get(targetRunId);
+      const sources = sourceRunIds
+        .filter(id => id !== targetRunId)
+        .map(id => state.derivedState.runMap.get(id));
+
+      if (!target || sources.length === 0 || sources.some(r => !r)) {
+        console.error('❌ Cannot merge runs, not found:', targetRunId, sourceRunIds);
+        return state;
+      }
+      const sourceRuns = sources as ExperimentRun[];
+      if (sourceRuns.some(r => r.versionId !== target.versionId || r.experimentId !== target.experimentId)) {
+        console.error('❌ Cannot merge runs of different versions or experiments');
+        return state;
+      }
+
+      const mergedRun = { ...target, trials: mergeRunTrials(target, sourceRuns) };
+      const [remainingRuns, removedRuns] = partitionIndexed(state.runs, r => sourceRunIds.includes(r.id) && r.id !== targetRunId);
+      const newRuns = remainingRuns.map(r => r.id === targetRunId ? mergedRun : r);
+      // Keep showing the merged data if one of the sources was selected
+      const currentRunId = state.currentRunId && sourceRunIds.includes(state.currentRunId) ? targetRunId : state.currentRunId;
+
+      console.log('🔀 Merged', sourceRuns.length, 'runs into:', targetRunId);
+
+      return {
+        ...state,
+        runs: newRuns,
+        currentRunId,
+        lastRemoval: {
+          ...emptyRemoval(state, `Merged ${sourceRuns.length + 1} runs`),
+          runs: removedRuns,
+          updatedRuns: [target]
+        },
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          newRuns,
+          state.currentVersionId,
+          state.currentExperimentId,
+          currentRunId
+        )
+      };
+    }
+
+    case 'RETAG_VERSION': {
+      const { versionId, tag } = action.payload;
+
+      if (!state.derivedState.versionMap.has(versionId)) {
+        console.error('❌ Cannot retag version, not found:', versionId);
+        return state;
+      }
+
+      const { sha } = parseVersionId(versionId);
+      const newId = tag ? `${sha}@${tag}` : sha;
+      if (newId === versionId) return state;
+      if (state.derivedState.versionMap.has(newId)) {
+        console.error('❌ Cannot retag version, ID already exists:', newId);
+        return state;
+      }
+
+      const newVersions = state.versions.map(v => v.id === versionId ? { ...v, id: newId } : v);
+      const retagRun = (run: ExperimentRun) => run.versionId === versionId ? { ...run, versionId: newId } : run;
+      const newRuns = state.runs.map(retagRun);
+      const currentVersionId = state.currentVersionId === versionId ? newId : state.currentVersionId;
+      // Removed runs of the version must follow it, or undoing their removal would drop them
+      const lastRemoval = state.lastRemoval && {
+        ...state.lastRemoval,
+        runs: state.lastRemoval.runs.map(({ item, index }) => ({ item: retagRun(item), index })),
+        updatedRuns: state.lastRemoval.updatedRuns.map(retagRun),
+        currentVersionId: state.lastRemoval.currentVersionId === versionId ? newId : state.lastRemoval.currentVersionId,
+      };
+
+      console.log('🏷️ Retagged version:', versionId, '->', newId);
+
+      return {
+        ...state,
+        versions: newVersions,
+        runs: newRuns,
+        currentVersionId,
+        lastRemoval,
+        derivedState: computeDerivedState(
+          newVersions,
+          state.experiments,
+          newRuns,
+          currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'REMOVE_VERSION': {
+      const versionId = action.payload;
+      const version = state.derivedState.versionMap.get(versionId);
+
+      if (!version) {
+        console.error('❌ Cannot remove version, not found:', versionId);
+        return state;
+      }
+
+      const [newVersions, removedVersions] = partitionIndexed(state.versions, v => v.id === versionId);
+      const [newRuns, removedRuns] = partitionIndexed(state.runs, r => r.versionId === versionId);
+
+      // Fall back to the first remaining version if the current one was removed
+      let { currentVersionId, currentExperimentId } = state;
+      if (currentVersionId === versionId) {
+        currentVersionId = newVersions.length > 0 ? newVersions[0].id : null;
+        currentExperimentId = currentVersionId
+          ? pickDefaultExperiment(currentVersionId, state.experiments, newRuns)
+          : null;
+      }
+
+      console.log('🗑️ Removed version:', versionId, 'with', removedRuns.length, 'runs');
+
+      return {
+        ...state,
+        versions: newVersions,
+        runs: newRuns,
+        currentVersionId,
+        currentExperimentId,
+        lastRemoval: {
+          ...emptyRemoval(state, `Deleted ${version.name} and its ${removedRuns.length} ${removedRuns.length === 1 ? 'run' : 'runs'}`),
+          versions: removedVersions,
+          runs: removedRuns
+        },
+        derivedState: computeDerivedState(
+          newVersions,
+          state.experiments,
+          newRuns,
+          currentVersionId,
+          currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'REMOVE_EXPERIMENT': {
+      const experimentId = action.payload;
+      const experiment = state.derivedState.experimentMap.get(experimentId);
+
+      if (!experiment) {
+        console.error('❌ Cannot remove experiment, not found:', experimentId);
+        return state;
+      }
+
+      const [newExperiments, removedExperiments] = partitionIndexed(state.experiments, e => e.id === experimentId);
+      const [newRuns, removedRuns] = partitionIndexed(state.runs, r => r.experimentId === experimentId);
+
+      let { currentExperimentId } = state;
+      if (currentExperimentId === experimentId) {
+        currentExperimentId = state.currentVersionId
+          ? pickDefaultExperiment(state.currentVersionId, newExperiments, newRuns)
+          : null;
+      }
+
+      console.log('🗑️ Removed experiment:', experimentId, 'with', removedRuns.length, 'runs');
+
+      return {
+        ...state,
+        experiments: newExperiments,
+        runs: newRuns,
+        currentExperimentId,
+        lastRemoval: {
+          ...emptyRemoval(state, `Deleted ${experiment.name} and its ${removedRuns.length} ${removedRuns.length === 1 ? 'run' : 'runs'}`),
+          experiments: removedExperiments,
+          runs: removedRuns
+        },
+        derivedState: computeDerivedState(
+          state.versions,
+          newExperiments,
+          newRuns,
+          state.currentVersionId,
+          currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'REMOVE_RUN': {
+      const runId = action.payload;
+
+      if (!state.derivedState.runMap.has(runId)) {
+        console.error('❌ Cannot remove run, not found:', runId);
+        return state;
+      }
+
+      const [newRuns, removedRuns] = partitionIndexed(state.runs, r => r.id === runId);
+      const trialCount = removedRuns[0].item.trials.length;
+
+      console.log('🗑️ Removed run:', runId);
+
+      return {
+        ...state,
+        runs: newRuns,
+        lastRemoval: {
+          ...emptyRemoval(state, `Deleted a run with ${trialCount} ${trialCount === 1 ? 'trial' : 'trials'}`),
+          runs: removedRuns
+        },
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          newRuns,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'REMOVE_TRIAL': {
+      const { runId, trialId } = action.payload;
+      const run = state.derivedState.runMap.get(runId);
+      const index = run ? run.trials.findIndex(t => t.id === trialId) : -1;
+
+      if (!run || index === -1) {
+        console.error('❌ Cannot remove trial, not found:', runId, trialId);
+        return state;
+      }
+
+      const newRuns = state.runs.map(r =>
+        r.id === runId ? { ...r, trials: r.trials.filter(t => t.id !== trialId) } : r
+      );
+
+      console.log('🗑️ Removed trial:', trialId, 'from run:', runId);
+
+      return {
+        ...state,
+        runs: newRuns,
+        lastRemoval: {
+          ...emptyRemoval(state, `Deleted trial ${trialId}`),
+          trials: [{ runId, item: run.trials[index], index }]
+        },
+        derivedState: computeDerivedState(
+          state.versions,
+          state.experiments,
+          newRuns,
+          state.currentVersionId,
+          state.currentExperimentId,
+          state.currentRunId
+        )
+      };
+    }
+
+    case 'UNDO_REMOVAL': {
+      const removal = state.lastRemoval;
+      if (!removal) return state;
+
+      const newVersions = restoreIndexed(state.versions, removal.versions);
+      const newExperiments = restoreIndexed(state.experiments, removal.experiments);
+      // Runs only come back if what they reference still exists
+      const restorableRuns = removal.runs.filter(({ item }) =>
+        newVersions.some(v => v.id === item.versionId) && newExperiments.some(e => e.id === item.experimentId)
+      );
+      const newRuns = restoreIndexed(state.runs, restorableRuns).map(run => {
+        const previous = removal.updatedRuns.find(r => r.id === run.id);
+        if (previous) return previous;
+        const trials = removal.trials.filter(t => t.runId === run.id);
+        return trials.length > 0 ? { ...run, trials: restoreIndexed(run.trials, trials) } : run;
+      });
+
+      // Go back to what was showing, if it still exists
+      const hasVersion = newVersions.some(v => v.id === removal.currentVersionId);
+      const hasExperiment = newExperiments.some(e => e.id === removal.currentExperimentId);
+      const currentVersionId = hasVersion ? removal.currentVersionId : state.currentVersionId;
+      const currentExperimentId = hasVersion && hasExperiment ? removal.currentExperimentId : state.currentExperimentId;
+      const currentRunId = hasVersion && hasExperiment ? removal.currentRunId : state.currentRunId;
+
+      console.log('↩️ Undid removal:', removal.description);
+
+      return {
+        versions: newVersions,
+        experiments: newExperiments,
+        runs: newRuns,
+        currentVersionId,
+        currentExperimentId,
+        currentRunId,
+        lastRemoval: null,
+        derivedState: computeDerivedState(
+          newVersions,
+          newExperiments,
+          newRuns,
+          currentVersionId,
+          currentExperimentId,
+          currentRunId
+        )
+      };
+    }
+
+    case 'DISMISS_REMOVAL':
+      return state.lastRemoval ? { ...state, lastRemoval: null } : state;
+
     case 'RESET_APP': {
       const { versions, experiments, runs } = action.payload;
       const currentVersionId = versions.length > 0 ? versions[0].id : null;
@@ -545,6 +1210,8 @@ function versionReducer(state: State, action: Action): State {
         runs,
         currentVersionId,
         currentExperimentId,
+        currentRunId: null,
+        lastRemoval: null,
         derivedState: computeDerivedState(versions, experiments, runs, currentVersionId, currentExperimentId)
       };
 
@@ -581,11 +1248,20 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     runs: [],
     currentVersionId: null,
     currentExperimentId: null,
+    currentRunId: null,
+    lastRemoval: null,
     derivedState: computeDerivedState([], [], [], null, null)
   });
+  const [isHydrated, setIsHydrated] = useState(false);
+  // Whether the selection in the URL has been applied to the loaded dataset yet
+  const urlRestoredRef = useRef(false);
+  const [unresolvedLink, setUnresolvedLink] = useState<UnresolvedLink | null>(null);
+  const linkedDatasetLoadedRef = useRef(false);
+  // The component owning the selected trial rewrites it in the URL before data loads
+  const [linkedTrialId] = useState(() => readUrlState().trialId);
 
   // Extract values from state for easier access
-  const { versions, experiments, runs } = state;
+  const { versions, experiments, runs, lastRemoval } = state;
   const {
     currentVersion,
     currentExperiment,
@@ -599,6 +1275,126 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     runTrials
   } = state.derivedState;
 
+  // Hydrate from persisted storage once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    loadPersistedState()
+      .then(data => {
+        if (cancelled || !data || data.versions.length === 0) return;
+        console.log('💾 Hydrating app from persisted state');
+        dispatch({
+          type: 'INITIALIZE',
+          payload: data
+        });
+      })
+      .catch(error => {
+        console.error('❌ Failed to load persisted state:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsHydrated(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Persist the dataset whenever it changes (debounced so bursts of trials write once)
+  useEffect(() => {
+    if (!isHydrated || versions.length === 0) return;
+
+    const handle = setTimeout(() => {
+      savePersistedState({ versions, experiments, runs }).catch(error => {
+        console.error('❌ Failed to persist state:', error);
+      });
+    }, 250);
+
+    return () => clearTimeout(handle);
+  }, [isHydrated, versions, experiments, runs]);
+
+  // Restore the version/experiment/run/profile from the URL once data is loaded, then keep the URL
+  // in sync: switching version, experiment or run adds a history entry, profile edits replace it
+  useEffect(() => {
+    if (!isHydrated || versions.length === 0) return;
+
+    const url = readUrlState();
+
+    if (!urlRestoredRef.current) {
+      const link = { ...url, trialId: linkedTrialId };
+      urlRestoredRef.current = true;
+      let restored = false;
+
+      // Local data from another seed or session doesn't have the linked IDs; keep the link so
+      // the user can be told, since the URL is rewritten to the local selection below
+      const isMissing = (id: string | undefined, has: (id: string) => boolean) => id !== undefined && !has(id);
+      if (
+        isMissing(link.versionId, id => versionMap.has(id)) ||
+        isMissing(link.experimentId, id => experimentMap.has(id)) ||
+        isMissing(link.runId, id => runMap.has(id)) ||
+        isMissing(link.trialId, id => runs.some(r => r.trials.some(t => t.id === id)))
+      ) {
+        console.warn('⚠️ Shared link selection not found in the loaded data:', link);
+        setUnresolvedLink({ url: link, afterDatasetLoad: linkedDatasetLoadedRef.current });
+      }
+
+      if (url.versionId && url.versionId !== currentVersion?.id && versionMap.has(url.versionId)) {
+        console.log('🔗 Restoring version from URL:', url.versionId);
+        dispatch({ type: 'SET_CURRENT_VERSION', payload: url.versionId });
+        restored = true;
+      }
+      if (url.experimentId && experimentMap.has(url.experimentId)) {
+        if (url.experimentId !== currentExperiment?.id || restored) {
+          console.log('🔗 Restoring experiment from URL:', url.experimentId);
+          dispatch({ type: 'SET_CURRENT_EXPERIMENT', payload: url.experimentId });
+          restored = true;
+        }
+        const experiment = experimentMap.get(url.experimentId);
+        if (url.profile && JSON.stringify(url.profile) !== JSON.stringify(experiment?.profile)) {
+          console.log('🔗 Restoring generation profile from URL for:', url.experimentId);
+          dispatch({
+            type: 'UPDATE_EXPERIMENT',
+            payload: { experimentId: url.experimentId, changes: { profile: url.profile } }
+          });
+          restored = true;
+        }
+      }
+      // Selecting the run also selects its version and experiment
+      if (url.runId && url.runId !== currentRun?.id && runMap.has(url.runId)) {
+        console.log('🔗 Restoring run from URL:', url.runId);
+        dispatch({ type: 'SET_CURRENT_RUN', payload: url.runId });
+        restored = true;
+      }
+      // The resulting state change runs this effect again to write the URL
+      if (restored) return;
+    }
+
+    const selectionChanged = url.versionId !== currentVersion?.id ||
+      url.experimentId !== currentExperiment?.id ||
+      (url.runId !== undefined && url.runId !== currentRun?.id);
+
+    writeUrlState({
+      versionId: currentVersion?.id,
+      experimentId: currentExperiment?.id,
+      runId: currentRun?.id,
+      profile: currentExperiment?.profile,
+    }, selectionChanged && url.versionId !== undefined ? 'push' : 'replace');
+  }, [isHydrated, versions.length, currentVersion, currentExperiment, currentRun?.id, versionMap, experimentMap, runMap, runs, linkedTrialId]);
+
+  // Browser back/forward restores the selection recorded in that history entry
+  useEffect(() => {
+    const handlePopState = () => {
+      const { versionId, experimentId, runId } = readUrlState();
+      console.log('🔙 Restoring selection from history:', { versionId, experimentId, runId });
+      if (versionId) dispatch({ type: 'SET_CURRENT_VERSION', payload: versionId });
+      if (experimentId) dispatch({ type: 'SET_CURRENT_EXPERIMENT', payload: experimentId });
+      if (runId) dispatch({ type: 'SET_CURRENT_RUN', payload: runId });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
   // Define action dispatchers
   const initialize = useCallback((data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => {
     console.log('🚀 Initializing app with', data.versions.length, 'versions,',
@@ -641,6 +1437,22 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
+  const updateVersion = useCallback((versionId: string, changes: Partial<Omit<TargetVersion, 'id'>>) => {
+    console.log('✏️ Updating version:', versionId);
+    dispatch({
+      type: 'UPDATE_VERSION',
+      payload: { versionId, changes }
+    });
+  }, []);
+
+  const updateExperiment = useCallback((experimentId: string, changes: Partial<Omit<Experiment, 'id'>>) => {
+    console.log('✏️ Updating experiment:', experimentId);
+    dispatch({
+      type: 'UPDATE_EXPERIMENT',
+      payload: { experimentId, changes }
+    });
+  }, []);
+
   const addRun = useCallback((runData: Partial<ExperimentRun>) => {
     console.log('➕ Adding new run for version:', runData.versionId, 'experiment:', runData.experimentId);
     dispatch({
@@ -649,6 +1461,30 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
+  const setCurrentRun = useCallback((runId: string) => {
+    console.log('👉 Setting current run:', runId);
+    dispatch({
+      type: 'SET_CURRENT_RUN',
+      payload: runId
+    });
+  }, []);
+
+  const updateRun = useCallback((runId: string, changes: Partial<Pick<ExperimentRun, 'metadata'>>) => {
+    console.log('✏️ Updating run:', runId);
+    dispatch({
+      type: 'UPDATE_RUN',
+      payload: { runId, changes }
+    });
+  }, []);
+
+  const mergeRuns = useCallback((targetRunId: string, sourceRunIds: string[]) => {
+    console.log('🔀 Merging runs into:', targetRunId, sourceRunIds);
+    dispatch({
+      type: 'MERGE_RUNS',
+      payload: { targetRunId, sourceRunIds }
+    });
+  }, []);
+
   const addTrial = useCallback((runId: string, trial: Trial) => {
     console.log('➕ Adding trial to run:', runId, 'trial:', trial.id);
     dispatch({
@@ -657,6 +1493,63 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
+  const addTrials = useCallback((runId: string, trials: Trial[]) => {
+    console.log('➕ Adding', trials.length, 'trials to run:', runId);
+    dispatch({
+      type: 'ADD_TRIALS',
+      payload: { runId, trials }
+    });
+  }, []);
+
+  const retagVersion = useCallback((versionId: string, tag: string | undefined) => {
+    console.log('🏷️ Retagging version:', versionId, 'as', tag);
+    dispatch({
+      type: 'RETAG_VERSION',
+      payload: { versionId, tag }
+    });
+  }, []);
+
+  const removeVersion = useCallback((versionId: string) => {
+    console.log('🗑️ Removing version:', versionId);
+    dispatch({
+      type: 'REMOVE_VERSION',
+      payload: versionId
+    });
+  }, []);
+
+  const removeExperiment = useCallback((experimentId: string) => {
+    console.log('🗑️ Removing experiment:', experimentId);
+    dispatch({
+      type: 'REMOVE_EXPERIMENT',
+      payload: experimentId
+    });
+  }, []);
+
+  const removeRun = useCallback((runId: string) => {
+    console.log('🗑️ Removing run:', runId);
+    dispatch({
+      type: 'REMOVE_RUN',
+      payload: runId
+    });
+  }, []);
+
+  const removeTrial = useCallback((runId: string, trialId: string) => {
+    console.log('🗑️ Removing trial:', trialId, 'from run:', runId);
+    dispatch({
+      type: 'REMOVE_TRIAL',
+      payload: { runId, trialId }
+    });
+  }, []);
+
+  const undoRemoval = useCallback(() => {
+    console.log('↩️ Undoing last removal');
+    dispatch({ type: 'UNDO_REMOVAL' });
+  }, []);
+
+  const dismissRemoval = useCallback(() => {
+    dispatch({ type: 'DISMISS_REMOVAL' });
+  }, []);
+
   const resetApp = useCallback((data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => {
     console.log('🔄 Resetting app');
     dispatch({
@@ -665,6 +1558,30 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
   }, []);
 
+  const loadLinkedDataset = useCallback((data: { versions: TargetVersion[], experiments: Experiment[], runs: ExperimentRun[] }) => {
+    if (!unresolvedLink) return;
+    const { url } = unresolvedLink;
+    console.log('🔗 Loading the linked dataset for:', url);
+    // Put the link's selection back in the URL and restore it again once the data is replaced
+    writeUrlState({
+      versionId: url.versionId,
+      experimentId: url.experimentId,
+      runId: url.runId,
+      profile: url.profile,
+    });
+    urlRestoredRef.current = false;
+    linkedDatasetLoadedRef.current = true;
+    setUnresolvedLink(null);
+    dispatch({
+      type: 'RESET_APP',
+      payload: data
+    });
+  }, [unresolvedLink]);
+
+  const dismissUnresolvedLink = useCallback(() => {
+    setUnresolvedLink(null);
+  }, []);
+
   // Define selectors
   const getVersion = useCallback((versionId: string): TargetVersion | null => {
     return versionMap.get(versionId) || null;
@@ -720,6 +1637,9 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     currentVersion,
     currentExperiment,
     currentRun,
+    isHydrated,
+    lastRemoval,
+    unresolvedLink,
 
     // Action dispatchers
     initialize,
@@ -727,9 +1647,24 @@ export const VersionProvider: React.FC<{ children: ReactNode }> = ({ children })
     setCurrentExperiment,
     addVersion,
     addExperiment,
+    updateVersion,
+    updateExperiment,
     addRun,
+    setCurrentRun,
+    updateRun,
+    mergeRuns,
     addTrial,
+    addTrials,
+    retagVersion,
+    removeVersion,
+    removeExperiment,
+    removeRun,
+    removeTrial,
+    undoRemoval,
+    dismissRemoval,
     resetApp,
+    loadLinkedDataset,
+    dismissUnresolvedLink,
 
     // Selectors
     getVersion,
@@ -0,0 +1,92 @@
+// batchRunner.ts
+import { Trial } from '@/types';
+import { getSortedTrialSamples, poolSortedSamples } from './binning';
+import { BootstrapStatistic, bootstrapSummary } from './bootstrap';
+import { mergeSorted } from './statistics';
+
+export const MAX_BATCH_TRIALS = 1000;
+
+// Fewer resamples than the displayed intervals: the width is re-checked after every trial
+const CI_CHECK_RESAMPLES = 200;
+
+export type BatchStopRule =
+    | { kind: 'count'; count: number }
+    // Stop once the CI of `statistic` over the run's pooled samples is at most `width` wide
+    | { kind: 'ci-width'; statistic: BootstrapStatistic; width: number; maxTrials: number };
+
+export interface BatchProgress {
+    completed: number;
+    // The trial count for fixed batches, the trial cap for CI-width batches
+    total: number;
+    ciWidth: number | null;
+}
+
+export interface BatchResult {
+    trials: Trial[];
+    cancelled: boolean;
+    // CI-width batches only: the target was met before the trial cap
+    targetReached: boolean;
+    ciWidth: number | null;
+    // Why the batch stopped early when a trial failed to generate; earlier trials are kept
+    error: string | null;
+}
+
+export interface BatchOptions {
+    rule: BatchStopRule;
+    // Produces the trial at `index` within the batch
+    generate: (index: number) => Trial | Promise<Trial>;
+    // Trials already in the run; their samples count toward the CI width
+    existingTrials?: Trial[];
+    signal?: AbortSignal;
+    onProgress?: (progress: BatchProgress) => void;
+}
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Generates trials until the stop rule is met, `signal` aborts or a trial fails. Trials are
+// collected and returned rather than dispatched, so the caller can apply the batch in one update.
+export const runTrialBatch = async ({
+    rule,
+    generate,
+    existingTrials = [],
+    signal,
+    onProgress,
+}: BatchOptions): Promise<BatchResult> => {
+    const total = rule.kind === 'count' ? rule.count : rule.maxTrials;
+    const trials: Trial[] = [];
+    // Kept sorted, so each check merges in the new trial instead of sorting every sample again
+    let pooled = rule.kind === 'ci-width' ? poolSortedSamples(existingTrials) : new Float64Array(0);
+    let ciWidth: number | null = null;
+    let targetReached = false;
+
+    while (trials.length < total && !targetReached) {
+        if (signal?.aborted) {
+            return { trials, cancelled: true, targetReached, ciWidth, error: null };
+        }
+
+        let trial: Trial;
+        try {
+            trial = await generate(trials.length);
+        } catch (error) {
+            console.error('❌ Batch trial failed:', error);
+            return { trials, cancelled: false, targetReached, ciWidth, error: error instanceof Error ? error.message : String(error) };
+        }
+        trials.push(trial);
+
+        if (rule.kind === 'ci-width') {
+            pooled = mergeSorted([pooled, getSortedTrialSamples(trial)]);
+            const summary = bootstrapSummary(pooled, { resamples: CI_CHECK_RESAMPLES, seed: pooled.length });
+            if (summary) {
+                ciWidth = summary[rule.statistic].upper - summary[rule.statistic].lower;
+                targetReached = ciWidth <= rule.width;
+            }
+        }
+
+        onProgress?.({ completed: trials.length, total, ciWidth });
+
+        // Let React paint the progress and handle a cancel click
+        await yieldToBrowser();
+    }
+
+    return { trials, cancelled: false, targetReached, ciWidth, error: null };
+};
@@ -0,0 +1,405 @@
+// binning.ts
+import { Bucket, HdrBucketSource, Trial } from '@/types';
+import { mergeSorted, quantileSorted, sortAscending, standardDeviation } from './statistics';
+import { cachedFor, cachedForList } from './statsCache';
+
+const DEFAULT_BUCKET_COUNT = 30;
+
+// Upper bound on regular buckets for the data-driven strategies, so a huge or
+// heavy-tailed sample doesn't produce thousands of bars
+export const MAX_BUCKET_COUNT = 500;
+
+export type BinningStrategy = 'fixed' | 'freedman-diaconis' | 'scott' | 'log' | 'hdr';
+
+export interface BinningConfig {
+    strategy: BinningStrategy;
+    bucketCount: number;          // Used by the fixed and log strategies
+    // Range of the regular buckets for the fixed strategy; defaults to the samples' range.
+    // Samples outside it land in the underflow/overflow buckets.
+    domain?: [number, number];
+    hdrSubBuckets: number;        // Linear sub-buckets per power of two for the HDR strategy
+}
+
+export const DEFAULT_BINNING_CONFIG: BinningConfig = {
+    strategy: 'fixed',
+    bucketCount: DEFAULT_BUCKET_COUNT,
+    hdrSubBuckets: 16,
+};
+
+export const BINNING_STRATEGIES: Record<BinningStrategy, { label: string; description: string }> = {
+    'fixed': {
+        label: 'Fixed count',
+        description: 'Equal-width buckets over the samples\' range, or a range you set',
+    },
+    'freedman-diaconis': {
+        label: 'Freedman–Diaconis',
+        description: 'Width 2·IQR/n^(1/3); robust to outliers',
+    },
+    'scott': {
+        label: 'Scott',
+        description: 'Width 3.49·σ/n^(1/3); best for roughly normal data',
+    },
+    'log': {
+        label: 'Log scale',
+        description: 'Geometrically growing buckets over the positive samples',
+    },
+    'hdr': {
+        label: 'HDR exponential',
+        description: 'Widths double every power of two, split into equal sub-buckets, as in HdrHistogram',
+    },
+};
+
+export interface SampleSummary {
+    maxValue: number;
+    sampleMean: number;
+}
+
+// Loop rather than Math.max(...samples) so very large arrays don't overflow the stack
+export const summarizeSamples = (samples: ArrayLike<number>): SampleSummary => {
+    let maxValue = -Infinity;
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+        const value = samples[i];
+        if (value > maxValue) maxValue = value;
+        sum += value;
+    }
+    return {
+        maxValue: samples.length > 0 ? maxValue : 0,
+        sampleMean: samples.length > 0 ? sum / samples.length : 0,
+    };
+};
+
+export const sampleDomain = (samples: ArrayLike<number>): [number, number] => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < samples.length; i++) {
+        if (samples[i] < min) min = samples[i];
+        if (samples[i] > max) max = samples[i];
+    }
+    if (min === Infinity) return [0, 1];
+    // Give a degenerate (single-valued) domain some width so buckets are non-empty ranges
+    if (min === max) return [min - 0.5, max + 0.5];
+    return [min, max];
+};
+
+const linearEdges = (min: number, max: number, count: number): number[] =>
+    Array.from({ length: count + 1 }, (_, i) => i === count ? max : min + (i * (max - min)) / count);
+
+// Equal-width buckets of roughly `width` over the range, falling back to the fixed count
+const widthEdges = (min: number, max: number, width: number, fallbackCount: number): number[] => {
+    const count = width > 0 && Number.isFinite(width)
+        ? Math.min(MAX_BUCKET_COUNT, Math.max(1, Math.ceil((max - min) / width)))
+        : fallbackCount;
+    return linearEdges(min, max, count);
+};
+
+// HdrHistogram-style edges: within [2^k, 2^(k+1)) buckets are 2^k / subBuckets wide
+const hdrEdges = (min: number, max: number, subBuckets: number): number[] => {
+    const widthAt = (value: number) => 2 ** Math.floor(Math.log2(value)) / subBuckets;
+    const edges = [Math.floor(min / widthAt(min)) * widthAt(min)];
+    while (edges[edges.length - 1] <= max && edges.length <= MAX_BUCKET_COUNT) {
+        const edge = edges[edges.length - 1];
+        edges.push(edge + widthAt(edge));
+    }
+    // Too fine for the range: halve the resolution until it fits
+    return edges.length > MAX_BUCKET_COUNT && subBuckets > 1 ? hdrEdges(min, max, subBuckets / 2) : edges;
+};
+
+// Edges of the regular buckets for a strategy. Log and HDR buckets only cover positive
+// values; anything at or below zero goes to the underflow bucket.
+export const computeBucketEdges = (samples: ArrayLike<number>, config: BinningConfig = DEFAULT_BINNING_CONFIG): number[] => {
+    const { strategy, bucketCount, hdrSubBuckets } = config;
+    const [min, max] = sampleDomain(samples);
+
+    switch (strategy) {
+        case 'fixed': {
+            const [start, end] = config.domain ?? [min, max];
+            return linearEdges(start, end, bucketCount);
+        }
+        case 'freedman-diaconis': {
+            const sorted = sortAscending(samples);
+            const iqr = quantileSorted(sorted, 0.75) - quantileSorted(sorted, 0.25);
+            // A zero IQR (mostly identical values) says nothing about width; Scott still might
+            if (iqr === 0) return computeBucketEdges(samples, { ...config, strategy: 'scott' });
+            return widthEdges(min, max, 2 * iqr / Math.cbrt(sorted.length), bucketCount);
+        }
+        case 'scott':
+            return widthEdges(min, max, 3.49 * standardDeviation(samples) / Math.cbrt(samples.length), bucketCount);
+        case 'log':
+        case 'hdr': {
+            let minPositive = Infinity;
+            for (let i = 0; i < samples.length; i++) {
+                if (samples[i] > 0 && samples[i] < minPositive) minPositive = samples[i];
+            }
+            // No positive samples: nothing to put on a log scale
+            if (minPositive === Infinity) return linearEdges(min, max, bucketCount);
+            const upper = Math.max(max, minPositive * 1.01);
+            if (strategy === 'hdr') return hdrEdges(minPositive, upper, hdrSubBuckets);
+            const ratio = Math.log(upper / minPositive) / bucketCount;
+            return Array.from({ length: bucketCount + 1 }, (_, i) =>
+                i === bucketCount ? upper : minPositive * Math.exp(i * ratio));
+        }
+    }
+};
+
+// Index of the regular bucket containing `value`, -1 below the first edge and
+// `edges.length - 1` above the last. The last bucket includes its upper edge.
+const findBucketIndex = (edges: number[], value: number): number => {
+    const last = edges.length - 1;
+    if (value < edges[0]) return -1;
+    if (value >= edges[last]) return value === edges[last] ? last - 1 : last;
+
+    let low = 0;
+    let high = last - 1;
+    while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if (edges[mid] <= value) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return low;
+};
+
+// Count samples into the buckets between `edges`, adding underflow/overflow buckets for
+// any samples outside them so every sample is counted. `expected` is left at zero.
+export const binIntoEdges = (samples: ArrayLike<number>, edges: number[]): Bucket[] => {
+    const buckets: Bucket[] = edges.slice(0, -1).map((start, i) => ({
+        start,
+        end: edges[i + 1],
+        expected: 0,
+        observed: 0,
+        value: (start + edges[i + 1]) / 2,
+    }));
+    if (buckets.length === 0) return buckets;
+
+    const first = edges[0];
+    const last = edges[edges.length - 1];
+    let underflow = 0;
+    let overflow = 0;
+    let lowest = first;
+    let highest = last;
+
+    for (let i = 0; i < samples.length; i++) {
+        const value = samples[i];
+        const index = findBucketIndex(edges, value);
+        if (index === -1) {
+            underflow++;
+            if (value < lowest) lowest = value;
+        } else if (index === buckets.length) {
+            overflow++;
+            if (value > highest) highest = value;
+        } else {
+            buckets[index].observed++;
+        }
+    }
+
+    if (underflow > 0) {
+        buckets.unshift({ start: lowest, end: first, expected: 0, observed: underflow, value: (lowest + first) / 2, kind: 'underflow' });
+    }
+    if (overflow > 0) {
+        buckets.push({ start: last, end: highest, expected: 0, observed: overflow, value: (last + highest) / 2, kind: 'overflow' });
+    }
+    return buckets;
+};
+
+// Bin samples with a strategy; see computeBucketEdges
+export const binWithStrategy = (samples: ArrayLike<number>, config: BinningConfig = DEFAULT_BINNING_CONFIG): Bucket[] =>
+    binIntoEdges(samples, computeBucketEdges(samples, config));
+
+interface BinOptions {
+    numBuckets?: number;
+    domain?: [number, number];
+}
+
+// Count samples into equal-width buckets. Without a model there is no expected
+// distribution, so `expected` is left at zero.
+export const binSamples = (samples: ArrayLike<number>, options: BinOptions = {}): Bucket[] => {
+    const { numBuckets = DEFAULT_BUCKET_COUNT, domain = sampleDomain(samples) } = options;
+    return binIntoEdges(samples, linearEdges(domain[0], domain[1], numBuckets));
+};
+
+// Edges of a layout's regular buckets
+const layoutEdges = (buckets: Bucket[]): number[] => {
+    const regular = buckets.filter(b => !b.kind);
+    return regular.length > 0 ? [...regular.map(b => b.start), regular[regular.length - 1].end] : [];
+};
+
+// Count samples into an existing bucket layout, keeping its edges and expected counts.
+// Underflow/overflow buckets are rebuilt for these samples.
+export const rebinSamples = (samples: ArrayLike<number>, template: Bucket[]): Bucket[] => {
+    const edges = layoutEdges(template);
+    if (edges.length === 0) return [];
+
+    const expectedByKind = new Map(template.filter(b => b.kind).map(b => [b.kind, b.expected]));
+    const regularExpected = template.filter(b => !b.kind).map(b => b.expected);
+
+    let regularIndex = 0;
+    return binIntoEdges(samples, edges).map(bucket => ({
+        ...bucket,
+        expected: bucket.kind ? expectedByKind.get(bucket.kind) ?? 0 : regularExpected[regularIndex++],
+    }));
+};
+
+// Buckets for a trial: re-binned from raw samples when the trial has them, otherwise
+// the stored (legacy) buckets. `template` defaults to the trial's own stored layout.
+export const deriveTrialBuckets = (trial: Trial, template: Bucket[] = trial.buckets || []): Bucket[] => {
+    if (trial.samples && trial.samples.length > 0) {
+        return template.length > 0 ? rebinSamples(trial.samples, template) : binSamples(trial.samples);
+    }
+    return trial.buckets || [];
+};
+
+export const countTrialSamples = (trial: Trial): number =>
+    trial.samples
+        ? trial.samples.length
+        : (trial.buckets || []).reduce((sum, b) => sum + b.observed, 0);
+
+// Combine several trials into one histogram. Trials with samples are binned into the
+// first trial's layout; legacy trials are merged by matching bucket ranges.
+export const aggregateTrialBuckets = (trials: Trial[]): Bucket[] => {
+    const template = trials.find(t => t.buckets && t.buckets.length > 0)?.buckets || [];
+    const bucketMap = new Map<string, Bucket>();
+
+    trials.forEach(trial => {
+        deriveTrialBuckets(trial, template).forEach(bucket => {
+            // Each trial's underflow/overflow bucket reaches its own extreme sample
+            const key = bucket.kind ?? `${bucket.start}-${bucket.end}`;
+            const existingBucket = bucketMap.get(key);
+            if (existingBucket) {
+                // Expected counts are per-trial and identical across trials, so only observed accumulates
+                existingBucket.observed += bucket.observed;
+                existingBucket.start = Math.min(existingBucket.start, bucket.start);
+                existingBucket.end = Math.max(existingBucket.end, bucket.end);
+                existingBucket.value = (existingBucket.start + existingBucket.end) / 2;
+            } else {
+                bucketMap.set(key, { ...bucket });
+            }
+        });
+    });
+
+    return Array.from(bucketMap.values()).sort((a, b) =>
+        (a.kind === 'underflow' ? -1 : a.kind === 'overflow' ? 1 : 0) -
+        (b.kind === 'underflow' ? -1 : b.kind === 'overflow' ? 1 : 0) ||
+        a.start - b.start);
+};
+
+// Value below which a fraction `q` of the counted samples fall. HdrHistogram buckets follow
+// HdrHistogram's convention of reporting the highest value equivalent to the bucket holding
+// that sample, so results match its own percentile output; other buckets interpolate linearly.
+export const bucketQuantile = (buckets: Bucket[], q: number, source?: HdrBucketSource): number => {
+    const sorted = [...buckets].filter(b => b.observed > 0).sort((a, b) => a.start - b.start);
+    const total = sorted.reduce((sum, b) => sum + b.observed, 0);
+    if (total === 0) return NaN;
+
+    if (source?.kind === 'hdr') {
+        if (q <= 0) return sorted[0].start;
+        const target = Math.max(1, Math.ceil(Math.min(q, 1) * total));
+        let cumulative = 0;
+        for (const bucket of sorted) {
+            cumulative += bucket.observed;
+            // Recorded values are whole multiples of the conversion ratio
+            if (cumulative >= target) return bucket.end - source.conversionRatio;
+        }
+        return sorted[sorted.length - 1].end - source.conversionRatio;
+    }
+
+    const target = Math.min(Math.max(q, 0), 1) * total;
+    let cumulative = 0;
+    for (const bucket of sorted) {
+        if (cumulative + bucket.observed >= target) {
+            return bucket.start + (bucket.end - bucket.start) * (target - cumulative) / bucket.observed;
+        }
+        cumulative += bucket.observed;
+    }
+    return sorted[sorted.length - 1].end;
+};
+
+// Beyond this many counts, trials without samples are approximated by evenly spaced
+// quantiles instead of one value per count; recorded histograms can hold billions
+export const MAX_APPROXIMATED_SAMPLES = 20_000;
+
+// Raw samples for a trial. Trials without samples are approximated by repeating each
+// bucket's center once per observed count, or by quantiles when there are too many counts.
+export const getTrialSamples = (trial: Trial): number[] =>
+    trial.samples ?? cachedFor(trial, 'approximated-samples', () => approximateSamples(trial));
+
+const approximateSamples = (trial: Trial): number[] => {
+    const buckets = (trial.buckets || []).filter(b => b.observed > 0).sort((a, b) => a.start - b.start);
+    const total = buckets.reduce((sum, b) => sum + b.observed, 0);
+    const approximated: number[] = [];
+
+    if (total <= MAX_APPROXIMATED_SAMPLES) {
+        buckets.forEach(bucket => {
+            for (let i = 0; i < bucket.observed; i++) approximated.push(bucket.value);
+        });
+        return approximated;
+    }
+
+    // One pass over the buckets, placing each quantile linearly within its bucket
+    let cumulative = 0;
+    let index = 0;
+    for (let i = 0; i < MAX_APPROXIMATED_SAMPLES; i++) {
+        const target = (i + 0.5) * total / MAX_APPROXIMATED_SAMPLES;
+        while (cumulative + buckets[index].observed < target) cumulative += buckets[index++].observed;
+        const bucket = buckets[index];
+        approximated.push(bucket.start + (bucket.end - bucket.start) * (target - cumulative) / bucket.observed);
+    }
+    return approximated;
+};
+
+// A trial's samples in ascending order, sorted once for the trial's lifetime
+export const getSortedTrialSamples = (trial: Trial): Float64Array =>
+    cachedFor(trial, 'sorted-samples', () => sortAscending(getTrialSamples(trial)));
+
+// Every sample of `trials` in ascending order, merged from the per-trial sorted samples
+export const poolSortedSamples = (trials: Trial[]): Float64Array =>
+    mergeSorted(trials.map(getSortedTrialSamples));
+
+// poolSortedSamples for a view that keeps showing the same trials; `slot` names the view, which
+// holds on to its latest pool until its trials change
+export const getPooledSortedSamples = (trials: Trial[], slot: string): Float64Array =>
+    cachedForList(`pooled-samples:${slot}`, trials, () => poolSortedSamples(trials));
+
+export interface DensitySeries {
+    id: string;
+    samples: ArrayLike<number>;
+}
+
+export interface DensityRow {
+    start: number;
+    end: number;
+    value: number;
+    // Probability density per series id, so series with different sample counts are comparable
+    densities: Record<string, number>;
+}
+
+// Bin several sample sets over one shared domain and normalize each to a density
+export const buildDensityHistogram = (series: DensitySeries[], numBuckets: number = DEFAULT_BUCKET_COUNT): DensityRow[] => {
+    const nonEmpty = series.filter(s => s.samples.length > 0);
+    if (nonEmpty.length === 0) return [];
+
+    let min = Infinity;
+    let max = -Infinity;
+    nonEmpty.forEach(s => {
+        const [seriesMin, seriesMax] = sampleDomain(s.samples);
+        min = Math.min(min, seriesMin);
+        max = Math.max(max, seriesMax);
+    });
+
+    const binned = nonEmpty.map(s => ({
+        id: s.id,
+        total: s.samples.length,
+        buckets: binSamples(s.samples, { numBuckets, domain: [min, max] }),
+    }));
+
+    return binned[0].buckets.map((bucket, index) => {
+        const width = bucket.end - bucket.start;
+        const densities: Record<string, number> = {};
+        binned.forEach(b => {
+            densities[b.id] = b.buckets[index].observed / (b.total * width);
+        });
+        return { start: bucket.start, end: bucket.end, value: bucket.value, densities };
+    });
+};
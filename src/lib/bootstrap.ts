@@ -0,0 +1,140 @@
+// bootstrap.ts
+import { ExperimentRun, Trial } from '@/types';
+import { generateSeedFromId, SeededRandom } from './random';
+import { getSortedTrialSamples, poolSortedSamples } from './binning';
+import { normalQuantile, quantileSorted, sortAscending } from './statistics';
+import { cachedFor, cachedForList } from './statsCache';
+
+export const BOOTSTRAP_STATISTICS = ['mean', 'median', 'p90', 'p99', 'max'] as const;
+
+export type BootstrapStatistic = typeof BOOTSTRAP_STATISTICS[number];
+
+export const BOOTSTRAP_STATISTIC_LABELS: Record<BootstrapStatistic, string> = {
+    mean: 'Mean',
+    median: 'Median',
+    p90: 'p90',
+    p99: 'p99',
+    max: 'Max',
+};
+
+export interface ConfidenceInterval {
+    estimate: number;
+    lower: number;
+    upper: number;
+}
+
+export type BootstrapSummary = Record<BootstrapStatistic, ConfidenceInterval>;
+
+export interface BootstrapOptions {
+    resamples?: number;
+    confidenceLevel?: number;
+    seed?: number;
+}
+
+// Cap the total work (resamples × sample size) so huge trials stay interactive
+const MAX_BOOTSTRAP_WORK = 2_000_000;
+const MIN_RESAMPLES = 200;
+
+const computeStatistics = (sorted: Float64Array): Record<BootstrapStatistic, number> => {
+    let sum = 0;
+    for (let i = 0; i < sorted.length; i++) sum += sorted[i];
+    return {
+        mean: sum / sorted.length,
+        median: quantileSorted(sorted, 0.5),
+        p90: quantileSorted(sorted, 0.9),
+        p99: quantileSorted(sorted, 0.99),
+        max: sorted[sorted.length - 1],
+    };
+};
+
+// Beyond this many samples even MIN_RESAMPLES resamples exceed the work cap
+const LARGE_SAMPLE_THRESHOLD = MAX_BOOTSTRAP_WORK / MIN_RESAMPLES;
+
+// Closed-form intervals for very large samples, where resampling is too slow and the
+// asymptotic approximations are accurate: normal for the mean, order statistics for
+// quantiles, and for the max the ranks a percentile bootstrap would land on
+const largeSampleSummary = (sorted: Float64Array, confidenceLevel: number): BootstrapSummary => {
+    const n = sorted.length;
+    const tail = (1 - confidenceLevel) / 2;
+    const z = normalQuantile(1 - tail);
+    const estimates = computeStatistics(sorted);
+
+    let sumSq = 0;
+    for (let i = 0; i < n; i++) sumSq += (sorted[i] - estimates.mean) ** 2;
+    const standardError = Math.sqrt(sumSq / (n - 1) / n);
+
+    const quantileInterval = (q: number): ConfidenceInterval => {
+        const spread = z * Math.sqrt(n * q * (1 - q));
+        return {
+            estimate: quantileSorted(sorted, q),
+            lower: sorted[Math.max(0, Math.floor(n * q - spread))],
+            upper: sorted[Math.min(n - 1, Math.ceil(n * q + spread))],
+        };
+    };
+
+    // P(resampled max <= the (j+1)-th largest value) ≈ e^-j
+    const maxRank = Math.floor(-Math.log(tail));
+    return {
+        mean: { estimate: estimates.mean, lower: estimates.mean - z * standardError, upper: estimates.mean + z * standardError },
+        median: quantileInterval(0.5),
+        p90: quantileInterval(0.9),
+        p99: quantileInterval(0.99),
+        max: { estimate: estimates.max, lower: sorted[Math.max(0, n - 1 - maxRank)], upper: estimates.max },
+    };
+};
+
+// Percentile bootstrap intervals for every statistic in BOOTSTRAP_STATISTICS
+export const bootstrapSummary = (samples: ArrayLike<number>, options: BootstrapOptions = {}): BootstrapSummary | null => {
+    const { resamples = 1000, confidenceLevel = 0.95, seed = 1 } = options;
+    const n = samples.length;
+    if (n === 0) return null;
+
+    const sortedSamples = sortAscending(samples);
+    if (n > LARGE_SAMPLE_THRESHOLD) {
+        return largeSampleSummary(sortedSamples, confidenceLevel);
+    }
+
+    const estimates = computeStatistics(sortedSamples);
+    const resampleCount = Math.max(MIN_RESAMPLES, Math.min(resamples, Math.floor(MAX_BOOTSTRAP_WORK / n)));
+
+    // xorshift is stuck at zero when seeded with 0
+    const random = new SeededRandom(seed || 1);
+    const distributions = Object.fromEntries(
+        BOOTSTRAP_STATISTICS.map(stat => [stat, new Float64Array(resampleCount)])
+    ) as Record<BootstrapStatistic, Float64Array>;
+
+    const resample = new Float64Array(n);
+    for (let r = 0; r < resampleCount; r++) {
+        for (let i = 0; i < n; i++) {
+            resample[i] = sortedSamples[Math.floor(random.next() * n)];
+        }
+        const stats = computeStatistics(resample.sort());
+        BOOTSTRAP_STATISTICS.forEach(stat => {
+            distributions[stat][r] = stats[stat];
+        });
+    }
+
+    const tail = (1 - confidenceLevel) / 2;
+    return Object.fromEntries(BOOTSTRAP_STATISTICS.map(stat => {
+        const sorted = distributions[stat].sort();
+        return [stat, {
+            estimate: estimates[stat],
+            lower: quantileSorted(sorted, tail),
+            upper: quantileSorted(sorted, 1 - tail),
+        }];
+    })) as BootstrapSummary;
+};
+
+const optionsKey = (options: BootstrapOptions): string =>
+    `${options.resamples ?? ''}:${options.confidenceLevel ?? ''}:${options.seed ?? ''}`;
+
+// Seeded from the trial id so the same trial always gets the same intervals, which are computed
+// once per trial and options
+export const bootstrapTrial = (trial: Trial, options: BootstrapOptions = {}): BootstrapSummary | null =>
+    cachedFor(trial, `bootstrap:${optionsKey(options)}`, () =>
+        bootstrapSummary(getSortedTrialSamples(trial), { seed: generateSeedFromId(trial.id), ...options }));
+
+// Intervals over the pooled samples of every trial in the run, recomputed only when the trials change
+export const bootstrapRun = (run: ExperimentRun, trials: Trial[] = run.trials, options: BootstrapOptions = {}): BootstrapSummary | null =>
+    cachedForList(`bootstrap-run:${run.id}:${optionsKey(options)}`, trials, () =>
+        bootstrapSummary(poolSortedSamples(trials), { seed: generateSeedFromId(run.id), ...options }));
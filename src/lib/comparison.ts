@@ -0,0 +1,162 @@
+// comparison.ts
+import { ExperimentRun, TargetVersion } from '@/types';
+import { poolSortedSamples } from './binning';
+import { cachedForList } from './statsCache';
+import { compareVersionIds } from './versionId';
+import {
+    MannWhitneyResult,
+    WelchTTestResult,
+    hedgesG,
+    mannWhitneyU,
+    mean,
+    sortAscending,
+    welchTTest
+} from './statistics';
+
+// Compare every raw sample, or one value (the sample mean) per trial
+export type ComparisonBasis = 'samples' | 'trial-means';
+
+export type ComparisonVerdict = 'regression' | 'improvement' | 'no-change' | 'insufficient-data';
+
+export interface ComparisonOptions {
+    basis: ComparisonBasis;
+    alpha: number;            // Significance level for the hypothesis tests
+    threshold: number;        // Minimum relative change of the mean to flag, e.g. 0.05 for 5%
+    higherIsWorse: boolean;   // Latency-style metrics: an increase is a regression
+}
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+    basis: 'samples',
+    alpha: 0.05,
+    threshold: 0.02,
+    higherIsWorse: true,
+};
+
+export interface ComparisonResult {
+    experimentId: string;
+    baselineVersionId: string;
+    candidateVersionId: string;
+    basis: ComparisonBasis;
+    baselineCount: number;
+    candidateCount: number;
+    baselineMean: number;
+    candidateMean: number;
+    relativeChange: number;   // (candidate - baseline) / baseline
+    mannWhitney: MannWhitneyResult | null;
+    welch: WelchTTestResult | null;
+    effectSize: number;       // Hedges' g, positive when the candidate is larger
+    verdict: ComparisonVerdict;
+}
+
+// The smallest group the tests are meaningful for
+const MIN_GROUP_SIZE = 2;
+
+// Versions with at least one run of the experiment, in version order
+export const getComparableVersions = (
+    versions: TargetVersion[],
+    runs: ExperimentRun[],
+    experimentId: string
+): TargetVersion[] => {
+    const versionIds = new Set(runs.filter(r => r.experimentId === experimentId).map(r => r.versionId));
+    return versions
+        .filter(v => versionIds.has(v.id))
+        .sort((a, b) => compareVersionIds(a.id, b.id));
+};
+
+// The values are returned in ascending order, which the rank test would otherwise sort again
+export const collectComparisonValues = (runs: ExperimentRun[], basis: ComparisonBasis): Float64Array => {
+    const trials = runs.flatMap(run => run.trials);
+    return basis === 'samples'
+        ? poolSortedSamples(trials)
+        : sortAscending(trials.map(trial => trial.sampleMean));
+};
+
+const optionsKey = (options: ComparisonOptions): string =>
+    `${options.basis}:${options.alpha}:${options.threshold}:${options.higherIsWorse}`;
+
+export const compareValues = (
+    baseline: ArrayLike<number>,
+    candidate: ArrayLike<number>,
+    options: ComparisonOptions
+): Pick<ComparisonResult, 'baselineMean' | 'candidateMean' | 'relativeChange' | 'mannWhitney' | 'welch' | 'effectSize' | 'verdict'> => {
+    const baselineMean = mean(baseline);
+    const candidateMean = mean(candidate);
+    const relativeChange = baselineMean !== 0 ? (candidateMean - baselineMean) / Math.abs(baselineMean) : NaN;
+
+    if (baseline.length < MIN_GROUP_SIZE || candidate.length < MIN_GROUP_SIZE) {
+        return {
+            baselineMean,
+            candidateMean,
+            relativeChange,
+            mannWhitney: null,
+            welch: null,
+            effectSize: NaN,
+            verdict: 'insufficient-data'
+        };
+    }
+
+    const mannWhitney = mannWhitneyU(baseline, candidate);
+    const welch = welchTTest(baseline, candidate);
+
+    // Mann-Whitney is the primary test because benchmark data is rarely normal;
+    // the change must also be large enough to matter
+    let verdict: ComparisonVerdict = 'no-change';
+    if (mannWhitney.pValue < options.alpha && Math.abs(relativeChange) >= options.threshold) {
+        const gotLarger = relativeChange > 0;
+        verdict = gotLarger === options.higherIsWorse ? 'regression' : 'improvement';
+    }
+
+    return {
+        baselineMean,
+        candidateMean,
+        relativeChange,
+        mannWhitney,
+        welch,
+        effectSize: hedgesG(baseline, candidate),
+        verdict
+    };
+};
+
+// Compare two runs, reusing the result until either run changes
+export const compareRuns = (
+    baseline: ExperimentRun,
+    candidate: ExperimentRun,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): ReturnType<typeof compareValues> =>
+    cachedForList(`compare-runs:${candidate.id}:${optionsKey(options)}`, [baseline, candidate], () =>
+        compareValues(
+            collectComparisonValues([baseline], options.basis),
+            collectComparisonValues([candidate], options.basis),
+            options
+        )
+    );
+
+// Compare all runs of `experimentId` on two versions; recomputed only when their runs change
+export const compareVersions = (
+    runs: ExperimentRun[],
+    experimentId: string,
+    baselineVersionId: string,
+    candidateVersionId: string,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): ComparisonResult => {
+    const runsFor = (versionId: string) =>
+        runs.filter(r => r.versionId === versionId && r.experimentId === experimentId);
+
+    const baselineRuns = runsFor(baselineVersionId);
+    const candidateRuns = runsFor(candidateVersionId);
+    const key = `compare-versions:${experimentId}:${baselineVersionId}:${candidateVersionId}:${baselineRuns.length}:${optionsKey(options)}`;
+
+    return cachedForList(key, [...baselineRuns, ...candidateRuns], () => {
+        const baseline = collectComparisonValues(baselineRuns, options.basis);
+        const candidate = collectComparisonValues(candidateRuns, options.basis);
+        return {
+            experimentId,
+            baselineVersionId,
+            candidateVersionId,
+            basis: options.basis,
+            baselineCount: baseline.length,
+            candidateCount: candidate.length,
+            ...compareValues(baseline, candidate, options)
+        };
+    });
+};
@@ -0,0 +1,60 @@
+// convergence.ts
+import { Trial } from '@/types';
+import { getTrialSamples } from './binning';
+import { normalQuantile } from './statistics';
+
+export interface ConvergencePoint {
+    trials: number;    // Trials pooled so far
+    samples: number;   // Samples pooled so far
+    runningMean: number;
+    runningMax: number;
+    // Full width of the normal-approximation CI of the mean; null until there are two samples
+    ciWidth: number | null;
+}
+
+export type ConvergenceEstimate = 'runningMean' | 'runningMax';
+
+// Running estimates after each trial, pooling every sample seen so far (Welford's algorithm)
+export const computeConvergence = (trials: Trial[], confidenceLevel: number = 0.95): ConvergencePoint[] => {
+    const z = normalQuantile(1 - (1 - confidenceLevel) / 2);
+    let count = 0;
+    let mean = 0;
+    let sumSquaredDeviations = 0;
+    let max = -Infinity;
+
+    return trials.map((trial, index) => {
+        for (const value of getTrialSamples(trial)) {
+            count++;
+            const delta = value - mean;
+            mean += delta / count;
+            sumSquaredDeviations += delta * (value - mean);
+            if (value > max) max = value;
+        }
+
+        return {
+            trials: index + 1,
+            samples: count,
+            runningMean: count > 0 ? mean : NaN,
+            runningMax: count > 0 ? max : NaN,
+            ciWidth: count > 1 ? 2 * z * Math.sqrt(sumSquaredDeviations / (count - 1) / count) : null,
+        };
+    });
+};
+
+// Index of the first point from which `estimate` stays within ±tolerance (a fraction, e.g. 0.01)
+// of its final value; null when there are no points
+export const findStabilizationIndex = (
+    points: ConvergencePoint[],
+    estimate: ConvergenceEstimate,
+    tolerance: number
+): number | null => {
+    if (points.length === 0) return null;
+
+    const finalValue = points[points.length - 1][estimate];
+    const bound = Math.abs(finalValue) * tolerance;
+    let index = points.length - 1;
+    while (index > 0 && Math.abs(points[index - 1][estimate] - finalValue) <= bound) {
+        index--;
+    }
+    return index;
+};
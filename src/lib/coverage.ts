@@ -0,0 +1,65 @@
+// coverage.ts
+import { Experiment, ExperimentRun, TargetVersion } from '@/types';
+import { poolSortedSamples } from './binning';
+import { quantileSorted } from './statistics';
+import { cachedForList } from './statsCache';
+import { compareVersionOrder } from './trend';
+
+export interface CoverageCell {
+    versionId: string;
+    experimentId: string;
+    runCount: number;
+    trialCount: number;
+    sampleCount: number;
+    median: number | null;       // Of all pooled samples; null when the cell has no samples
+}
+
+export interface CoverageRow {
+    version: TargetVersion;
+    cells: CoverageCell[];       // One per experiment, in the matrix's experiment order
+}
+
+export interface CoverageMatrix {
+    experiments: Experiment[];
+    rows: CoverageRow[];
+    filledCells: number;
+    totalCells: number;
+}
+
+// Versions (in trend order) × experiments, summarizing every run of each combination. A cell
+// is only recomputed when its runs change.
+export const buildCoverageMatrix = (
+    versions: TargetVersion[],
+    experiments: Experiment[],
+    runs: ExperimentRun[]
+): CoverageMatrix => {
+    let filledCells = 0;
+
+    const rows = [...versions].sort(compareVersionOrder).map(version => ({
+        version,
+        cells: experiments.map(experiment => {
+            const cellRuns = runs.filter(r => r.versionId === version.id && r.experimentId === experiment.id);
+            const cell = cachedForList(`coverage:${version.id}:${experiment.id}`, cellRuns, (): CoverageCell => {
+                const trials = cellRuns.flatMap(r => r.trials);
+                const samples = poolSortedSamples(trials);
+                return {
+                    versionId: version.id,
+                    experimentId: experiment.id,
+                    runCount: cellRuns.length,
+                    trialCount: trials.length,
+                    sampleCount: samples.length,
+                    median: samples.length > 0 ? quantileSorted(samples, 0.5) : null,
+                };
+            });
+            if (cell.trialCount > 0) filledCells++;
+            return cell;
+        }),
+    }));
+
+    return {
+        experiments,
+        rows,
+        filledCells,
+        totalCells: versions.length * experiments.length,
+    };
+};
@@ -0,0 +1,140 @@
+// density.ts
+import { quantileSorted, sortAscending, standardDeviation } from './statistics';
+
+export type KdeBandwidthRule = 'silverman' | 'scott';
+
+export interface KdeOptions {
+    rule: KdeBandwidthRule;
+    adjust: number;            // Multiplies the rule's bandwidth; below 1 shows more detail
+}
+
+export const DEFAULT_KDE_OPTIONS: KdeOptions = {
+    rule: 'silverman',
+    adjust: 1,
+};
+
+export const KDE_BANDWIDTH_RULES: Record<KdeBandwidthRule, { label: string; description: string }> = {
+    silverman: {
+        label: 'Silverman',
+        description: '0.9·min(σ, IQR/1.34)·n^(-1/5); robust to tails',
+    },
+    scott: {
+        label: 'Scott',
+        description: '1.06·σ·n^(-1/5); smoother, best for roughly normal data',
+    },
+};
+
+// Above this many samples the estimate is built from evenly spaced quantiles instead,
+// which keeps the shape while bounding the cost of every evaluation
+const MAX_KDE_SAMPLES = 10_000;
+
+// Gaussian kernel contributions beyond this many bandwidths are negligible
+const KERNEL_CUTOFF = 4;
+
+export interface KernelDensity {
+    bandwidth: number;
+    density: (x: number) => number;
+}
+
+export const kdeBandwidth = (sorted: ArrayLike<number>, rule: KdeBandwidthRule): number => {
+    const sd = standardDeviation(sorted);
+    const factor = Math.pow(sorted.length, -1 / 5);
+    if (rule === 'scott') return 1.06 * sd * factor;
+
+    const iqr = quantileSorted(sorted, 0.75) - quantileSorted(sorted, 0.25);
+    // A zero IQR (mostly identical values) would collapse the bandwidth; fall back to σ
+    const spread = iqr > 0 ? Math.min(sd, iqr / 1.34) : sd;
+    return 0.9 * spread * factor;
+};
+
+// Gaussian kernel density estimate; null when the samples have no spread to estimate from
+export const createKernelDensity = (samples: ArrayLike<number>, options: KdeOptions = DEFAULT_KDE_OPTIONS): KernelDensity | null => {
+    const all = sortAscending(samples);
+    if (all.length < 2) return null;
+    const bandwidth = kdeBandwidth(all, options.rule) * options.adjust;
+    if (!(bandwidth > 0)) return null;
+
+    const points = all.length > MAX_KDE_SAMPLES
+        ? Float64Array.from({ length: MAX_KDE_SAMPLES }, (_, i) => quantileSorted(all, (i + 0.5) / MAX_KDE_SAMPLES))
+        : all;
+    const normalization = 1 / (points.length * bandwidth * Math.sqrt(2 * Math.PI));
+
+    // First index whose value is ≥ x
+    const lowerBound = (x: number) => {
+        let low = 0;
+        let high = points.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (points[mid] < x) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return low;
+    };
+
+    return {
+        bandwidth,
+        density: x => {
+            let sum = 0;
+            const end = lowerBound(x + KERNEL_CUTOFF * bandwidth);
+            for (let i = lowerBound(x - KERNEL_CUTOFF * bandwidth); i < end; i++) {
+                const z = (x - points[i]) / bandwidth;
+                sum += Math.exp(-0.5 * z * z);
+            }
+            return sum * normalization;
+        },
+    };
+};
+
+export interface BoxSummary {
+    min: number;
+    q1: number;
+    median: number;
+    q3: number;
+    max: number;
+    // Tukey whiskers: the most extreme samples within 1.5·IQR of the box
+    lowerWhisker: number;
+    upperWhisker: number;
+    outliers: number[];
+    outlierCount: number;      // Can exceed outliers.length, which keeps only the most extreme
+}
+
+// Drawing every outlier of a large heavy-tailed trial is slow and unreadable
+const MAX_DRAWN_OUTLIERS = 100;
+
+export const summarizeBox = (samples: ArrayLike<number>): BoxSummary | null => {
+    const sorted = sortAscending(samples);
+    if (sorted.length === 0) return null;
+
+    const q1 = quantileSorted(sorted, 0.25);
+    const q3 = quantileSorted(sorted, 0.75);
+    const lowerFence = q1 - 1.5 * (q3 - q1);
+    const upperFence = q3 + 1.5 * (q3 - q1);
+
+    let first = 0;
+    while (sorted[first] < lowerFence) first++;
+    let last = sorted.length - 1;
+    while (sorted[last] > upperFence) last--;
+
+    const low = Array.from(sorted.subarray(0, first));
+    const high = Array.from(sorted.subarray(last + 1));
+    // Keep the most extreme outliers on each side, in proportion to how many there are
+    const keepLow = Math.round(MAX_DRAWN_OUTLIERS * low.length / Math.max(1, low.length + high.length));
+    const outliers = low.length + high.length <= MAX_DRAWN_OUTLIERS
+        ? [...low, ...high]
+        : [...low.slice(0, keepLow), ...high.slice(high.length - (MAX_DRAWN_OUTLIERS - keepLow))];
+
+    return {
+        min: sorted[0],
+        q1,
+        median: quantileSorted(sorted, 0.5),
+        q3,
+        max: sorted[sorted.length - 1],
+        lowerWhisker: sorted[first],
+        upperWhisker: sorted[last],
+        outliers,
+        outlierCount: low.length + high.length,
+    };
+};
@@ -0,0 +1,281 @@
+// distributions.ts
+import { logGamma, normalCdf } from './statistics';
+
+export type DistributionId = 'normal-tail' | 'lognormal' | 'bimodal' | 'pareto' | 'weibull';
+
+export interface DistributionParameter {
+    key: string;
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    defaultValue: number;
+    description: string;
+}
+
+export interface DistributionSpec {
+    id: DistributionId;
+    params: Record<string, number>;
+    // Optional affine adjustment around the reference location:
+    // x' = location + (x - location) * scale + shift
+    shift?: number;
+    scale?: number;
+}
+
+export interface DistributionDefinition {
+    id: DistributionId;
+    label: string;
+    description: string;
+    parameters: DistributionParameter[];
+    sample: (rng: () => number, params: Record<string, number>) => number;
+    cdf: (x: number, params: Record<string, number>) => number;
+    // Range the bucket layout and expected curve are drawn over
+    domain: (params: Record<string, number>) => [number, number];
+    // Location/scale used for the μ/σ reference lines
+    reference: (params: Record<string, number>) => { location: number; scale: number };
+    // True mean and standard deviation, where they differ from the reference; stdDev is
+    // Infinity when the variance does not exist
+    moments?: (params: Record<string, number>) => { mean: number; stdDev: number };
+}
+
+const standardNormal = (rng: () => number): number =>
+    Math.sqrt(-2 * Math.log(rng())) * Math.cos(2 * Math.PI * rng());
+
+// Weibull/Pareto mean and sd in terms of the gamma function
+const gamma = (x: number): number => Math.exp(logGamma(x));
+
+const normalTail: DistributionDefinition = {
+    id: 'normal-tail',
+    label: 'Normal with shifted tail',
+    description: 'Normal body plus a small probability of samples from a copy shifted right by tailShift·σ',
+    parameters: [
+        { key: 'mean', label: 'Mean (μ)', min: 1, max: 1000, step: 1, defaultValue: 100, description: 'Center of the main distribution' },
+        { key: 'stdDev', label: 'Standard Deviation (σ)', min: 1, max: 100, step: 1, defaultValue: 10, description: 'Spread of both the body and the tail' },
+        { key: 'tailShift', label: 'Tail Shift (σ)', min: 0, max: 10, step: 0.5, defaultValue: 3, description: 'How far right the tail is centered, in σ' },
+        { key: 'tailProbability', label: 'Tail Probability', min: 0, max: 0.5, step: 0.005, defaultValue: 0.01, description: 'Chance a sample comes from the tail' },
+    ],
+    // Draw order (tail coin, then Box-Muller) matches the original generator so seeds reproduce
+    sample: (rng, { mean, stdDev, tailShift, tailProbability }) => {
+        const u1 = rng();
+        const u2 = rng();
+        const z = Math.sqrt(-2 * Math.log(u2)) * Math.cos(2 * Math.PI * rng());
+        return u1 < tailProbability
+            ? mean + tailShift * stdDev + z * stdDev
+            : mean + z * stdDev;
+    },
+    cdf: (x, { mean, stdDev, tailShift, tailProbability }) =>
+        (1 - tailProbability) * normalCdf(x, mean, stdDev) +
+        tailProbability * normalCdf(x, mean + tailShift * stdDev, stdDev),
+    domain: ({ mean, stdDev, tailShift }) => [mean - 4 * stdDev, mean + (tailShift + 2) * stdDev],
+    reference: ({ mean, stdDev }) => ({ location: mean, scale: stdDev }),
+    // The reference lines mark the body; the moments include the tail
+    moments: ({ mean, stdDev, tailShift, tailProbability }) => {
+        const shift = tailShift * stdDev;
+        return {
+            mean: mean + tailProbability * shift,
+            stdDev: Math.sqrt(stdDev * stdDev + tailProbability * (1 - tailProbability) * shift * shift),
+        };
+    },
+};
+
+const lognormal: DistributionDefinition = {
+    id: 'lognormal',
+    label: 'Log-normal',
+    description: 'Right-skewed latency: the logarithm of each sample is normally distributed',
+    parameters: [
+        { key: 'median', label: 'Median', min: 1, max: 1000, step: 1, defaultValue: 100, description: 'exp(μ) of the underlying normal' },
+        { key: 'sigma', label: 'Shape (σ of log)', min: 0.01, max: 1.5, step: 0.01, defaultValue: 0.25, description: 'Larger values give a longer right tail' },
+    ],
+    sample: (rng, { median, sigma }) => Math.exp(Math.log(median) + sigma * standardNormal(rng)),
+    cdf: (x, { median, sigma }) => x <= 0 ? 0 : normalCdf(Math.log(x), Math.log(median), sigma),
+    domain: ({ median, sigma }) => [median * Math.exp(-3.5 * sigma), median * Math.exp(3.5 * sigma)],
+    reference: ({ median, sigma }) => {
+        const mu = Math.log(median);
+        return {
+            location: Math.exp(mu + sigma * sigma / 2),
+            scale: Math.sqrt((Math.exp(sigma * sigma) - 1) * Math.exp(2 * mu + sigma * sigma)),
+        };
+    },
+};
+
+const bimodal: DistributionDefinition = {
+    id: 'bimodal',
+    label: 'Bimodal',
+    description: 'Two normal modes, e.g. cache hits and misses',
+    parameters: [
+        { key: 'mean1', label: 'First Mode', min: 1, max: 1000, step: 1, defaultValue: 90, description: 'Center of the first mode' },
+        { key: 'mean2', label: 'Second Mode', min: 1, max: 1000, step: 1, defaultValue: 130, description: 'Center of the second mode' },
+        { key: 'stdDev', label: 'Mode Spread (σ)', min: 1, max: 100, step: 1, defaultValue: 6, description: 'Standard deviation of each mode' },
+        { key: 'weight2', label: 'Second Mode Weight', min: 0, max: 1, step: 0.01, defaultValue: 0.3, description: 'Fraction of samples drawn from the second mode' },
+    ],
+    sample: (rng, { mean1, mean2, stdDev, weight2 }) => {
+        const center = rng() < weight2 ? mean2 : mean1;
+        return center + stdDev * standardNormal(rng);
+    },
+    cdf: (x, { mean1, mean2, stdDev, weight2 }) =>
+        (1 - weight2) * normalCdf(x, mean1, stdDev) + weight2 * normalCdf(x, mean2, stdDev),
+    domain: ({ mean1, mean2, stdDev }) => [Math.min(mean1, mean2) - 4 * stdDev, Math.max(mean1, mean2) + 4 * stdDev],
+    reference: ({ mean1, mean2, stdDev, weight2 }) => {
+        const location = (1 - weight2) * mean1 + weight2 * mean2;
+        return {
+            location,
+            scale: Math.sqrt(stdDev * stdDev + weight2 * (1 - weight2) * (mean2 - mean1) ** 2),
+        };
+    },
+};
+
+const pareto: DistributionDefinition = {
+    id: 'pareto',
+    label: 'Pareto',
+    description: 'Heavy power-law tail above a minimum value',
+    parameters: [
+        { key: 'scale', label: 'Minimum (xₘ)', min: 1, max: 1000, step: 1, defaultValue: 80, description: 'Smallest possible sample' },
+        { key: 'alpha', label: 'Tail Index (α)', min: 1.1, max: 10, step: 0.1, defaultValue: 4, description: 'Smaller values give a heavier tail' },
+    ],
+    sample: (rng, { scale, alpha }) => scale / Math.pow(1 - rng(), 1 / alpha),
+    cdf: (x, { scale, alpha }) => x < scale ? 0 : 1 - Math.pow(scale / x, alpha),
+    // Cut the tail at the 99.5th percentile
+    domain: ({ scale, alpha }) => [scale, scale / Math.pow(0.005, 1 / alpha)],
+    reference: ({ scale, alpha }) => {
+        const location = alpha > 1 ? alpha * scale / (alpha - 1) : scale;
+        const scaleValue = alpha > 2
+            ? scale / (alpha - 1) * Math.sqrt(alpha / (alpha - 2))
+            : location / 2; // Infinite variance: fall back to a nominal spread
+        return { location, scale: scaleValue };
+    },
+    moments: ({ scale, alpha }) => ({
+        mean: alpha > 1 ? alpha * scale / (alpha - 1) : Infinity,
+        stdDev: alpha > 2 ? scale / (alpha - 1) * Math.sqrt(alpha / (alpha - 2)) : Infinity,
+    }),
+};
+
+const weibull: DistributionDefinition = {
+    id: 'weibull',
+    label: 'Weibull',
+    description: 'Shifted Weibull; shape < 1 gives a heavy tail, shape ≈ 3.6 looks normal',
+    parameters: [
+        { key: 'location', label: 'Minimum', min: 0, max: 1000, step: 1, defaultValue: 70, description: 'Smallest possible sample' },
+        { key: 'scale', label: 'Scale (λ)', min: 1, max: 500, step: 1, defaultValue: 30, description: 'Spread above the minimum' },
+        { key: 'shape', label: 'Shape (k)', min: 0.3, max: 5, step: 0.1, defaultValue: 1.5, description: 'Tail heaviness' },
+    ],
+    sample: (rng, { location, scale, shape }) => location + scale * Math.pow(-Math.log(1 - rng()), 1 / shape),
+    cdf: (x, { location, scale, shape }) =>
+        x <= location ? 0 : 1 - Math.exp(-Math.pow((x - location) / scale, shape)),
+    // Cut the tail at the 99.9th percentile
+    domain: ({ location, scale, shape }) => [location, location + scale * Math.pow(-Math.log(0.001), 1 / shape)],
+    reference: ({ location, scale, shape }) => {
+        const g1 = gamma(1 + 1 / shape);
+        const g2 = gamma(1 + 2 / shape);
+        return {
+            location: location + scale * g1,
+            scale: scale * Math.sqrt(Math.max(0, g2 - g1 * g1)),
+        };
+    },
+};
+
+export const DISTRIBUTIONS: Record<DistributionId, DistributionDefinition> = {
+    'normal-tail': normalTail,
+    'lognormal': lognormal,
+    'bimodal': bimodal,
+    'pareto': pareto,
+    'weibull': weibull,
+};
+
+export const getDistribution = (id: DistributionId): DistributionDefinition =>
+    DISTRIBUTIONS[id] ?? normalTail;
+
+export const defaultDistributionSpec = (id: DistributionId): DistributionSpec => ({
+    id,
+    params: Object.fromEntries(getDistribution(id).parameters.map(p => [p.key, p.defaultValue])),
+});
+
+const resolveAffine = (spec: DistributionSpec) => ({
+    location: getDistribution(spec.id).reference(spec.params).location,
+    shift: spec.shift ?? 0,
+    scale: spec.scale ?? 1,
+});
+
+// Sampler with the spec's shift/scale applied; resolve once and reuse for many samples
+export const createSampler = (spec: DistributionSpec): (rng: () => number) => number => {
+    const { sample } = getDistribution(spec.id);
+    if (spec.shift === undefined && spec.scale === undefined) {
+        return rng => sample(rng, spec.params);
+    }
+    const { location, shift, scale } = resolveAffine(spec);
+    return rng => location + (sample(rng, spec.params) - location) * scale + shift;
+};
+
+export const distributionCdf = (spec: DistributionSpec, x: number): number => {
+    const { cdf } = getDistribution(spec.id);
+    const { location, shift, scale } = resolveAffine(spec);
+    return cdf(location + (x - shift - location) / scale, spec.params);
+};
+
+export const distributionDomain = (spec: DistributionSpec): [number, number] => {
+    const [min, max] = getDistribution(spec.id).domain(spec.params);
+    const { location, shift, scale } = resolveAffine(spec);
+    return [location + (min - location) * scale + shift, location + (max - location) * scale + shift];
+};
+
+export const distributionReference = (spec: DistributionSpec): { location: number; scale: number } => {
+    const reference = getDistribution(spec.id).reference(spec.params);
+    return {
+        location: reference.location + (spec.shift ?? 0),
+        scale: reference.scale * (spec.scale ?? 1),
+    };
+};
+
+// Mean and standard deviation of the samples the spec generates, shift/scale included
+export const distributionMoments = (spec: DistributionSpec): { mean: number; stdDev: number } => {
+    const definition = getDistribution(spec.id);
+    const { location, shift, scale } = resolveAffine(spec);
+    const reference = definition.reference(spec.params);
+    const moments = definition.moments?.(spec.params) ?? { mean: reference.location, stdDev: reference.scale };
+    return {
+        mean: location + (moments.mean - location) * scale + shift,
+        stdDev: moments.stdDev * scale,
+    };
+};
+
+// Probability mass the distribution puts in [start, end)
+export const bucketProbability = (spec: DistributionSpec, start: number, end: number): number =>
+    distributionCdf(spec, end) - distributionCdf(spec, start);
+
+// Inverse CDF by bisection; the mixtures have no closed form. The search starts from the
+// drawing domain and widens it until the quantile is bracketed.
+export const distributionQuantile = (spec: DistributionSpec, p: number): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    let [low, high] = distributionDomain(spec);
+    const span = Math.max(high - low, 1e-9);
+    for (let step = span; distributionCdf(spec, low) > p && step < span * 2 ** 40; step *= 2) low -= step;
+    for (let step = span; distributionCdf(spec, high) < p && step < span * 2 ** 40; step *= 2) high += step;
+
+    for (let i = 0; i < 100 && high - low > 1e-9 * Math.max(1, Math.abs(high)); i++) {
+        const mid = (low + high) / 2;
+        if (distributionCdf(spec, mid) < p) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return (low + high) / 2;
+};
+
+// Human-readable problems with a spec's parameters; empty when the spec is usable
+export const validateDistributionSpec = (spec: DistributionSpec): string[] => {
+    if (!DISTRIBUTIONS[spec.id]) return [`Unknown distribution "${spec.id}"`];
+    if (spec.scale !== undefined && !(spec.scale > 0)) return ['Scale adjustment must be greater than 0'];
+
+    return getDistribution(spec.id).parameters.flatMap(param => {
+        const value = spec.params[param.key];
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            return [`${param.label} must be a number`];
+        }
+        if (value < param.min || value > param.max) {
+            return [`${param.label} must be between ${param.min} and ${param.max}`];
+        }
+        return [];
+    });
+};
@@ -0,0 +1,96 @@
+// exporter.ts
+import { Bucket, ExperimentRun } from '@/types';
+import { PERSISTENCE_SCHEMA_VERSION, PersistedData } from './persistence';
+import { countTrialSamples, deriveTrialBuckets } from './binning';
+
+// Marks a JSON document as a full-fidelity export that the importer can load back as-is
+export const EXPORT_FORMAT = 'benchmark-histogram';
+
+export interface ExportDocument extends PersistedData {
+    format: typeof EXPORT_FORMAT;
+    schemaVersion: number;
+    exportedAt: number;
+}
+
+export const createDatasetExport = (data: PersistedData, now: number = Date.now()): ExportDocument => ({
+    format: EXPORT_FORMAT,
+    schemaVersion: PERSISTENCE_SCHEMA_VERSION,
+    exportedAt: now,
+    versions: data.versions,
+    experiments: data.experiments,
+    runs: data.runs,
+});
+
+// A single run plus the version and experiment it references, so it loads standalone
+export const createRunExport = (run: ExperimentRun, data: PersistedData, now: number = Date.now()): ExportDocument =>
+    createDatasetExport({
+        versions: data.versions.filter(v => v.id === run.versionId),
+        experiments: data.experiments.filter(e => e.id === run.experimentId),
+        runs: [run],
+    }, now);
+
+const TRIAL_SUMMARY_COLUMNS = [
+    'version_id',
+    'version_name',
+    'experiment_id',
+    'experiment_name',
+    'run_id',
+    'trial_id',
+    'trial_timestamp',
+    'sample_mean',
+    'max_value',
+    'sample_count',
+    'bucket_start',
+    'bucket_end',
+    'bucket_counts',
+    'underflow_count',
+    'overflow_count',
+];
+
+const escapeCsvField = (value: string | number): string => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per trial. Bucket counts are `;`-separated so each trial stays on a single row.
+export const createTrialSummaryCsv = (data: PersistedData): string => {
+    const versionNames = new Map(data.versions.map(v => [v.id, v.name]));
+    const experimentNames = new Map(data.experiments.map(e => [e.id, e.name]));
+
+    const rows = data.runs.flatMap(run => run.trials.map(trial => {
+        const allBuckets = deriveTrialBuckets(trial);
+        // Counts are for the equal-width buckets; samples outside them are counted separately
+        const buckets = allBuckets.filter(b => !b.kind);
+        const countOf = (kind: Bucket['kind']) => allBuckets.find(b => b.kind === kind)?.observed ?? 0;
+        return [
+            run.versionId,
+            versionNames.get(run.versionId) ?? '',
+            run.experimentId,
+            experimentNames.get(run.experimentId) ?? '',
+            run.id,
+            trial.id,
+            trial.timestamp,
+            trial.sampleMean,
+            trial.maxValue,
+            countTrialSamples(trial),
+            buckets.length > 0 ? buckets[0].start : '',
+            buckets.length > 0 ? buckets[buckets.length - 1].end : '',
+            buckets.map(b => b.observed).join(';'),
+            countOf('underflow'),
+            countOf('overflow'),
+        ].map(escapeCsvField).join(',');
+    }));
+
+    return [TRIAL_SUMMARY_COLUMNS.join(','), ...rows].join('\n') + '\n';
+};
+
+export const downloadTextFile = (fileName: string, content: string, mimeType: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,214 @@
+// hdrHistogram.ts
+import { Bucket, HdrBucketSource } from '@/types';
+
+// Cookies of HdrHistogram's V2 encodings; the low nibble of the second byte carries the
+// word size and is masked off before comparing
+const V2_ENCODING_COOKIE = 0x1c849303;
+const V2_COMPRESSED_ENCODING_COOKIE = 0x1c849304;
+const V2_HEADER_BYTES = 40;
+
+export interface HdrCount {
+    index: number;     // Index into HdrHistogram's counts array
+    count: number;
+}
+
+export interface HdrHistogram {
+    significantDigits: number;
+    lowestDiscernibleValue: number;
+    highestTrackableValue: number;
+    conversionRatio: number;   // integerToDoubleValueConversionRatio; 1 unless a DoubleHistogram
+    counts: HdrCount[];        // Non-zero counts only, in index order
+    totalCount: number;
+}
+
+const cookieBase = (cookie: number) => cookie & ~0xf0;
+
+export const isHdrEncoding = (bytes: Uint8Array): boolean => {
+    if (bytes.length < 4) return false;
+    const base = cookieBase(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getInt32(0));
+    return base === V2_ENCODING_COOKIE || base === V2_COMPRESSED_ENCODING_COOKIE;
+};
+
+// Counts can exceed 32 bits, so 64-bit fields are assembled as doubles rather than with bit ops
+const readInt64 = (view: DataView, offset: number): number =>
+    view.getInt32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+// ZigZag-encoded LEB128 varint of up to 9 bytes; the 9th byte contributes all 8 bits
+const readZigZagVarint = (view: DataView, offset: number): [number, number] => {
+    let value = 0;
+    let scale = 1;
+    let position = offset;
+    for (let i = 0; i < 9; i++) {
+        if (position >= view.byteLength) throw new Error('Histogram payload ends inside a count');
+        const byte = view.getUint8(position++);
+        if (i === 8) {
+            value += byte * scale;
+            break;
+        }
+        value += (byte & 0x7f) * scale;
+        if ((byte & 0x80) === 0) break;
+        scale *= 128;
+    }
+    return [value % 2 === 0 ? value / 2 : -(value + 1) / 2, position];
+};
+
+const decodeUncompressed = (bytes: Uint8Array): HdrHistogram => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < V2_HEADER_BYTES || cookieBase(view.getInt32(0)) !== V2_ENCODING_COOKIE) {
+        throw new Error('Not an HdrHistogram V2 encoding');
+    }
+
+    const payloadLength = view.getInt32(4);
+    const normalizingIndexOffset = view.getInt32(8);
+    const significantDigits = view.getInt32(12);
+    const lowestDiscernibleValue = readInt64(view, 16);
+    const highestTrackableValue = readInt64(view, 24);
+    const conversionRatio = view.getFloat64(32);
+
+    if (V2_HEADER_BYTES + payloadLength > bytes.length) throw new Error('Histogram payload is truncated');
+    if (normalizingIndexOffset !== 0) throw new Error('Shifted histograms (non-zero normalizing index offset) are not supported');
+    if (!(significantDigits >= 0 && significantDigits <= 5)) throw new Error(`Invalid number of significant digits: ${significantDigits}`);
+    if (!(lowestDiscernibleValue >= 1)) throw new Error(`Invalid lowest discernible value: ${lowestDiscernibleValue}`);
+    if (!(conversionRatio > 0) || !Number.isFinite(conversionRatio)) throw new Error(`Invalid value conversion ratio: ${conversionRatio}`);
+
+    // Positive entries are counts; negative ones skip that many zero counts
+    const counts: HdrCount[] = [];
+    let totalCount = 0;
+    let index = 0;
+    let position = V2_HEADER_BYTES;
+    const end = V2_HEADER_BYTES + payloadLength;
+    while (position < end) {
+        const [entry, next] = readZigZagVarint(view, position);
+        position = next;
+        if (entry < 0) {
+            index -= entry;
+        } else {
+            if (entry > 0) {
+                counts.push({ index, count: entry });
+                totalCount += entry;
+            }
+            index++;
+        }
+    }
+
+    return { significantDigits, lowestDiscernibleValue, highestTrackableValue, conversionRatio, counts, totalCount };
+};
+
+const inflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Decode a V2 encoded or compressed histogram, as written by encodeIntoCompressedByteBuffer
+// and found (base64-encoded) in .hlog interval logs
+export const decodeHdrHistogram = async (bytes: Uint8Array): Promise<HdrHistogram> => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < 8) throw new Error('Histogram is too short');
+
+    if (cookieBase(view.getInt32(0)) !== V2_COMPRESSED_ENCODING_COOKIE) return decodeUncompressed(bytes);
+
+    const compressedLength = view.getInt32(4);
+    if (8 + compressedLength > bytes.length) throw new Error('Compressed histogram is truncated');
+    try {
+        return decodeUncompressed(await inflate(bytes.subarray(8, 8 + compressedLength)));
+    } catch (error) {
+        throw new Error(`Could not decompress histogram: ${(error as Error).message}`);
+    }
+};
+
+export const decodeBase64 = (text: string): Uint8Array => {
+    const binary = atob(text.trim());
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+// Value range [start, end) of one entry of the counts array. Each power of two above the
+// first is split into subBucketHalfCount equal sub-buckets, which is what keeps the
+// relative error under 10^-significantDigits.
+const countsIndexRange = (histogram: HdrHistogram, index: number): [number, number] => {
+    const subBucketCountMagnitude = Math.ceil(Math.log2(2 * 10 ** histogram.significantDigits));
+    const subBucketHalfCountMagnitude = Math.max(subBucketCountMagnitude, 1) - 1;
+    const subBucketHalfCount = 2 ** subBucketHalfCountMagnitude;
+    const unitMagnitude = Math.floor(Math.log2(histogram.lowestDiscernibleValue));
+
+    let bucketIndex = Math.floor(index / subBucketHalfCount) - 1;
+    let subBucketIndex = (index % subBucketHalfCount) + subBucketHalfCount;
+    if (bucketIndex < 0) {
+        subBucketIndex -= subBucketHalfCount;
+        bucketIndex = 0;
+    }
+    const unit = 2 ** (bucketIndex + unitMagnitude);
+    return [subBucketIndex * unit, (subBucketIndex + 1) * unit];
+};
+
+export const hdrBucketSource = (histogram: HdrHistogram): HdrBucketSource => ({
+    kind: 'hdr',
+    significantDigits: histogram.significantDigits,
+    lowestDiscernibleValue: histogram.lowestDiscernibleValue,
+    conversionRatio: histogram.conversionRatio,
+});
+
+// One bucket per non-zero count, keeping HdrHistogram's log-linear boundaries. Edges are
+// scaled by the conversion ratio so DoubleHistograms come out in their own units.
+export const hdrBuckets = (histogram: HdrHistogram): Bucket[] =>
+    histogram.counts.map(({ index, count }) => {
+        const [start, end] = countsIndexRange(histogram, index).map(edge => edge * histogram.conversionRatio);
+        return { start, end, expected: 0, observed: count, value: (start + end) / 2 };
+    });
+
+export interface HistogramLogEntry {
+    line: number;               // 1-based, for error reporting
+    tag?: string;
+    startTime?: number;         // Seconds since the epoch, when the log says when it started
+    encoded: string;            // Base64 of a (usually compressed) V2 histogram
+}
+
+const HEADER_TIME_PATTERN = /^#\[(StartTime|BaseTime): ([\d.]+)/;
+
+// Interval lines of an .hlog file: `[Tag=x,]start,length,max,histogram`. Bare base64
+// histograms, one per line, are accepted too. Header and comment lines are skipped.
+export const parseHistogramLog = (text: string): HistogramLogEntry[] => {
+    let logStartTime: number | undefined;
+    let baseTime: number | undefined;
+    const entries: HistogramLogEntry[] = [];
+
+    text.split(/\r?\n/).forEach((rawLine, lineIndex) => {
+        const line = rawLine.trim();
+        if (line === '') return;
+
+        const header = HEADER_TIME_PATTERN.exec(line);
+        if (header) {
+            if (header[1] === 'StartTime') logStartTime = Number(header[2]);
+            else baseTime = Number(header[2]);
+            return;
+        }
+        if (line.startsWith('#') || line.startsWith('"')) return;
+
+        const fields = line.split(',');
+        const tag = fields[0].startsWith('Tag=') ? fields.shift()!.slice(4) : undefined;
+        if (fields.length === 1) {
+            entries.push({ line: lineIndex + 1, tag, encoded: fields[0] });
+            return;
+        }
+
+        // Interval timestamps are relative to BaseTime when given; otherwise values before
+        // the log's StartTime are relative to it and later ones are already absolute
+        const offset = Number(fields[0]);
+        const origin = baseTime ?? (logStartTime !== undefined && offset < logStartTime ? logStartTime : undefined);
+        const isAbsolute = origin === undefined && logStartTime !== undefined;
+        entries.push({
+            line: lineIndex + 1,
+            tag: tag || undefined,
+            startTime: !Number.isFinite(offset) ? undefined : origin !== undefined ? origin + offset : isAbsolute ? offset : undefined,
+            encoded: fields[fields.length - 1],
+        });
+    });
+
+    return entries;
+};
+
+// Whether text looks like an .hlog interval log or a list of base64 histograms. Compressed
+// V2 histograms always start with "HIST" once base64-encoded.
+export const looksLikeHistogramLog = (text: string): boolean =>
+    /^(Tag=[^,]*,)?([\d.]+,){3}HIST/m.test(text) || /^HIST[A-Za-z0-9+/=]+\s*$/m.test(text);
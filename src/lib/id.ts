@@ -31,10 +31,10 @@ const getSecureRandom = () => {
   return array[0] / (0xffffffff + 1);
 };
 
-const shuffleArray = <T>(array: T[]): T[] => {
+const shuffleArray = <T>(array: T[], random: () => number): T[] => {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(getSecureRandom() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -43,21 +43,24 @@ const shuffleArray = <T>(array: T[]): T[] => {
 interface IdOptions {
   separator?: string;
   includeVerb?: boolean;
+  // Pass a seeded generator for reproducible IDs; defaults to the crypto RNG
+  random?: () => number;
 }
 
 export const generateId = (options: IdOptions = {}): string => {
   const {
     separator = '-',
-    includeVerb = true
+    includeVerb = true,
+    random = getSecureRandom
   } = options;
 
-  const shuffledAdj = shuffleArray(adjectives);
-  const shuffledNouns = shuffleArray(nouns);
-  const shuffledVerbs = shuffleArray(verbs);
+  const shuffledAdj = shuffleArray(adjectives, random);
+  const shuffledNouns = shuffleArray(nouns, random);
+  const shuffledVerbs = shuffleArray(verbs, random);
 
-  const adj = shuffledAdj[Math.floor(getSecureRandom() * shuffledAdj.length)];
-  const noun = shuffledNouns[Math.floor(getSecureRandom() * shuffledNouns.length)];
-  const verb = shuffledVerbs[Math.floor(getSecureRandom() * shuffledVerbs.length)];
+  const adj = shuffledAdj[Math.floor(random() * shuffledAdj.length)];
+  const noun = shuffledNouns[Math.floor(random() * shuffledNouns.length)];
+  const verb = shuffledVerbs[Math.floor(random() * shuffledVerbs.length)];
 
   const parts = [adj, noun];
   if (includeVerb) parts.push(verb);
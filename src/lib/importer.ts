@@ -0,0 +1,576 @@
+// importer.ts
+import { Experiment, ExperimentRun, RunMetadata, TargetVersion, Trial } from '@/types';
+import { PersistedData, migrateDocument } from './persistence';
+import { EXPORT_FORMAT } from './exporter';
+import { binSamples, countTrialSamples, sampleDomain, summarizeSamples } from './binning';
+import { parseGenerationProfile, parseVersionPerturbation } from './profiles';
+import { normalizeRunMetadata } from './runs';
+import {
+    HdrHistogram,
+    decodeBase64,
+    decodeHdrHistogram,
+    hdrBucketSource,
+    hdrBuckets,
+    isHdrEncoding,
+    looksLikeHistogramLog,
+    parseHistogramLog
+} from './hdrHistogram';
+
+export interface ImportIssue {
+    // 1-based line number for CSV input, JSON path (e.g. "runs[2].trials[0]") for JSON input
+    location: string;
+    message: string;
+}
+
+export interface ImportResult {
+    data: PersistedData;
+    issues: ImportIssue[];
+    trialCount: number;
+    sampleCount: number;
+}
+
+export const CSV_COLUMNS = ['version', 'experiment', 'run', 'trial', 'sample'] as const;
+
+// Colors handed out to experiments that don't specify one
+const EXPERIMENT_COLORS = ['#60A5FA', '#34D399', '#F87171', '#FBBF24', '#A78BFA', '#F472B6', '#2DD4BF'];
+
+// Intermediate shape shared by all input formats before binning. Recorded histograms
+// have no samples and keep their own buckets.
+interface RawTrial {
+    id: string;
+    timestamp: number;
+    samples: number[];
+    histogram?: HdrHistogram;
+}
+
+interface DecodedHistogram {
+    tag?: string;
+    startTime?: number;    // Seconds since the epoch
+    histogram: HdrHistogram;
+}
+
+// Version and experiment that histogram logs are imported into, since they don't name any.
+// Without one, a placeholder is created.
+export interface HistogramImportTarget {
+    version: TargetVersion | null;
+    experiment: Experiment | null;
+}
+
+const HISTOGRAM_IMPORT_ID = 'hdr-import';
+
+interface RawRun {
+    id: string;
+    versionId: string;
+    experimentId: string;
+    timestamp: number;
+    trials: RawTrial[];
+    metadata?: RunMetadata;
+}
+
+interface RawDataset {
+    versions: TargetVersion[];
+    experiments: Experiment[];
+    runs: RawRun[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+
+const optionalTimestamp = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const createExperiment = (id: string, index: number, data: Record<string, unknown> = {}): Experiment => ({
+    id,
+    name: optionalString(data.name) ?? id,
+    description: optionalString(data.description) ?? '',
+    parameters: isRecord(data.parameters) ? data.parameters as Experiment['parameters'] : {},
+    color: optionalString(data.color) ?? EXPERIMENT_COLORS[index % EXPERIMENT_COLORS.length],
+    profile: parseGenerationProfile(data.profile),
+});
+
+const parseRunMetadata = (value: unknown): RunMetadata | undefined =>
+    isRecord(value)
+        ? normalizeRunMetadata({
+            host: optionalString(value.host),
+            commit: optionalString(value.commit),
+            notes: optionalString(value.notes),
+        })
+        : undefined;
+
+// Ensure every version/experiment referenced by a run is declared
+const addMissingReferences = (dataset: RawDataset, now: number) => {
+    const versionIds = new Set(dataset.versions.map(v => v.id));
+    const experimentIds = new Set(dataset.experiments.map(e => e.id));
+
+    dataset.runs.forEach(run => {
+        if (!versionIds.has(run.versionId)) {
+            versionIds.add(run.versionId);
+            dataset.versions.push({ id: run.versionId, name: run.versionId, timestamp: now });
+        }
+        if (!experimentIds.has(run.experimentId)) {
+            experimentIds.add(run.experimentId);
+            dataset.experiments.push(createExperiment(run.experimentId, dataset.experiments.length));
+        }
+    });
+};
+
+const trialFromHistogram = (rawTrial: RawTrial, runId: string, histogram: HdrHistogram): Trial => {
+    const buckets = hdrBuckets(histogram);
+    const source = hdrBucketSource(histogram);
+    const sum = buckets.reduce((total, b) => total + b.value * b.observed, 0);
+    return {
+        id: rawTrial.id,
+        runId,
+        buckets,
+        timestamp: rawTrial.timestamp,
+        // HdrHistogram reports the highest value equivalent to the largest one recorded
+        maxValue: buckets.length > 0 ? buckets[buckets.length - 1].end - source.conversionRatio : 0,
+        sampleMean: histogram.totalCount > 0 ? sum / histogram.totalCount : 0,
+        bucketSource: source,
+    };
+};
+
+// Bin every trial of a run over the run's shared domain, so trial buckets line up
+// when the chart aggregates them
+const buildResult = (dataset: RawDataset, issues: ImportIssue[]): ImportResult => {
+    let trialCount = 0;
+    let sampleCount = 0;
+
+    const runs: ExperimentRun[] = dataset.runs.map(run => {
+        const domain = sampleDomain(run.trials.flatMap(t => t.samples));
+
+        const trials: Trial[] = run.trials.map(rawTrial => {
+            trialCount++;
+            if (rawTrial.histogram) {
+                sampleCount += rawTrial.histogram.totalCount;
+                return trialFromHistogram(rawTrial, run.id, rawTrial.histogram);
+            }
+            sampleCount += rawTrial.samples.length;
+            return {
+                id: rawTrial.id,
+                runId: run.id,
+                buckets: binSamples(rawTrial.samples, { domain }),
+                timestamp: rawTrial.timestamp,
+                samples: rawTrial.samples,
+                ...summarizeSamples(rawTrial.samples),
+            };
+        });
+
+        return {
+            id: run.id,
+            versionId: run.versionId,
+            experimentId: run.experimentId,
+            trials,
+            timestamp: run.timestamp,
+            metadata: run.metadata,
+        };
+    });
+
+    return {
+        data: { versions: dataset.versions, experiments: dataset.experiments, runs },
+        issues,
+        trialCount,
+        sampleCount,
+    };
+};
+
+const parseSamples = (value: unknown, location: string, issues: ImportIssue[]): number[] | null => {
+    if (!Array.isArray(value)) {
+        issues.push({ location, message: 'Expected "samples" to be an array of numbers' });
+        return null;
+    }
+    if (value.length === 0) {
+        issues.push({ location, message: 'Trial has no samples' });
+        return null;
+    }
+
+    const badIndex = value.findIndex(v => typeof v !== 'number' || !Number.isFinite(v));
+    if (badIndex !== -1) {
+        issues.push({
+            location: `${location}.samples[${badIndex}]`,
+            message: `Sample is not a finite number: ${JSON.stringify(value[badIndex])}`
+        });
+        return null;
+    }
+
+    return value as number[];
+};
+
+// Documents produced by the exporter already carry binned trials, so they are loaded
+// as-is (after schema migration) instead of being re-binned from samples
+const parseExportDocument = (root: Record<string, unknown>): ImportResult => {
+    const issues: ImportIssue[] = [];
+    const data = migrateDocument(root);
+    if (!data) {
+        issues.push({ location: '$', message: `Unsupported ${EXPORT_FORMAT} document (schema version ${String(root.schemaVersion)})` });
+        return { data: { versions: [], experiments: [], runs: [] }, issues, trialCount: 0, sampleCount: 0 };
+    }
+
+    const versionIds = new Set(data.versions.map(v => v.id));
+    const experimentIds = new Set(data.experiments.map(e => e.id));
+    let trialCount = 0;
+    let sampleCount = 0;
+
+    data.runs.forEach((run, runIndex) => {
+        const location = `runs[${runIndex}]`;
+        if (!versionIds.has(run.versionId)) {
+            issues.push({ location, message: `Run references unknown version "${run.versionId}"` });
+        }
+        if (!experimentIds.has(run.experimentId)) {
+            issues.push({ location, message: `Run references unknown experiment "${run.experimentId}"` });
+        }
+        if (!Array.isArray(run.trials)) {
+            issues.push({ location, message: 'Run must have a "trials" array' });
+            return;
+        }
+        run.trials.forEach((trial, trialIndex) => {
+            if (!Array.isArray(trial.buckets)) {
+                issues.push({ location: `${location}.trials[${trialIndex}]`, message: 'Trial must have a "buckets" array' });
+                return;
+            }
+            if (trial.samples !== undefined && !parseSamples(trial.samples, `${location}.trials[${trialIndex}]`, issues)) {
+                return;
+            }
+            trialCount++;
+            sampleCount += countTrialSamples(trial);
+        });
+    });
+
+    return { data, issues, trialCount, sampleCount };
+};
+
+export const parseJsonImport = (text: string, now: number = Date.now()): ImportResult => {
+    const issues: ImportIssue[] = [];
+    const dataset: RawDataset = { versions: [], experiments: [], runs: [] };
+
+    let root: unknown;
+    try {
+        root = JSON.parse(text);
+    } catch (error) {
+        issues.push({ location: '$', message: `Invalid JSON: ${(error as Error).message}` });
+        return buildResult(dataset, issues);
+    }
+
+    if (isRecord(root) && root.format === EXPORT_FORMAT) {
+        return parseExportDocument(root);
+    }
+
+    if (!isRecord(root) || !Array.isArray(root.runs)) {
+        issues.push({ location: '$', message: 'Expected an object with a "runs" array' });
+        return buildResult(dataset, issues);
+    }
+
+    const versionIds = new Set<string>();
+    (Array.isArray(root.versions) ? root.versions : []).forEach((version: unknown, index: number) => {
+        const location = `versions[${index}]`;
+        const id = isRecord(version) ? optionalString(version.id) : undefined;
+        if (!isRecord(version) || !id) {
+            issues.push({ location, message: 'Version must have a non-empty "id"' });
+            return;
+        }
+        if (versionIds.has(id)) {
+            issues.push({ location, message: `Duplicate version id "${id}"` });
+            return;
+        }
+        versionIds.add(id);
+        dataset.versions.push({
+            id,
+            name: optionalString(version.name) ?? id,
+            timestamp: optionalTimestamp(version.timestamp) ?? now,
+            perturbation: parseVersionPerturbation(version.perturbation),
+        });
+    });
+
+    const experimentIds = new Set<string>();
+    (Array.isArray(root.experiments) ? root.experiments : []).forEach((experiment: unknown, index: number) => {
+        const location = `experiments[${index}]`;
+        const id = isRecord(experiment) ? optionalString(experiment.id) : undefined;
+        if (!isRecord(experiment) || !id) {
+            issues.push({ location, message: 'Experiment must have a non-empty "id"' });
+            return;
+        }
+        if (experimentIds.has(id)) {
+            issues.push({ location, message: `Duplicate experiment id "${id}"` });
+            return;
+        }
+        experimentIds.add(id);
+        dataset.experiments.push(createExperiment(id, dataset.experiments.length, experiment));
+    });
+
+    const runIds = new Set<string>();
+    const trialIds = new Set<string>();
+    root.runs.forEach((run: unknown, runIndex: number) => {
+        const location = `runs[${runIndex}]`;
+        if (!isRecord(run)) {
+            issues.push({ location, message: 'Run must be an object' });
+            return;
+        }
+
+        const versionId = optionalString(run.versionId);
+        const experimentId = optionalString(run.experimentId);
+        if (!versionId || !experimentId) {
+            issues.push({ location, message: 'Run must have "versionId" and "experimentId"' });
+            return;
+        }
+
+        const runId = optionalString(run.id) ?? `run-${versionId}-${experimentId}-${runIndex}`;
+        if (runIds.has(runId)) {
+            issues.push({ location, message: `Duplicate run id "${runId}"` });
+            return;
+        }
+        runIds.add(runId);
+
+        if (!Array.isArray(run.trials) || run.trials.length === 0) {
+            issues.push({ location, message: 'Run must have a non-empty "trials" array' });
+            return;
+        }
+
+        const runTimestamp = optionalTimestamp(run.timestamp) ?? now;
+        const trials: RawTrial[] = [];
+        run.trials.forEach((trial: unknown, trialIndex: number) => {
+            const trialLocation = `${location}.trials[${trialIndex}]`;
+            if (!isRecord(trial)) {
+                issues.push({ location: trialLocation, message: 'Trial must be an object' });
+                return;
+            }
+            const trialId = optionalString(trial.id) ?? `trial-${runId}-${trialIndex}`;
+            if (trialIds.has(trialId)) {
+                issues.push({ location: trialLocation, message: `Duplicate trial id "${trialId}"` });
+                return;
+            }
+            trialIds.add(trialId);
+
+            const samples = parseSamples(trial.samples, trialLocation, issues);
+            if (!samples) return;
+
+            trials.push({
+                id: trialId,
+                timestamp: optionalTimestamp(trial.timestamp) ?? runTimestamp + trialIndex,
+                samples,
+            });
+        });
+
+        dataset.runs.push({
+            id: runId,
+            versionId,
+            experimentId,
+            timestamp: runTimestamp,
+            trials,
+            metadata: parseRunMetadata(run.metadata),
+        });
+    });
+
+    addMissingReferences(dataset, now);
+    return buildResult(dataset, issues);
+};
+
+// Split one CSV line, honouring double-quoted fields with "" escapes
+const splitCsvLine = (line: string): string[] => {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (inQuotes) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            fields.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    fields.push(current.trim());
+    return fields;
+};
+
+export const parseCsvImport = (text: string, now: number = Date.now()): ImportResult => {
+    const issues: ImportIssue[] = [];
+    const dataset: RawDataset = { versions: [], experiments: [], runs: [] };
+    const lines = text.split(/\r?\n/);
+
+    const headerIndex = lines.findIndex(line => line.trim() !== '');
+    if (headerIndex === -1) {
+        issues.push({ location: 'line 1', message: 'File is empty' });
+        return buildResult(dataset, issues);
+    }
+
+    const header = splitCsvLine(lines[headerIndex]).map(h => h.toLowerCase());
+    const columnIndex = Object.fromEntries(CSV_COLUMNS.map(column => [column, header.indexOf(column)]));
+    const missingColumns = CSV_COLUMNS.filter(column => columnIndex[column] === -1);
+    if (missingColumns.length > 0) {
+        issues.push({
+            location: `line ${headerIndex + 1}`,
+            message: `Header is missing column(s): ${missingColumns.join(', ')}`
+        });
+        return buildResult(dataset, issues);
+    }
+
+    // Preserve first-seen ordering of runs and trials
+    const runs = new Map<string, RawRun>();
+    const trials = new Map<string, RawTrial>();
+
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+        if (lines[i].trim() === '') continue;
+
+        const location = `line ${i + 1}`;
+        const fields = splitCsvLine(lines[i]);
+        if (fields.length !== header.length) {
+            issues.push({ location, message: `Expected ${header.length} fields, found ${fields.length}` });
+            continue;
+        }
+
+        const [versionId, experimentId, runName, trialName, sampleText] =
+            CSV_COLUMNS.map(column => fields[columnIndex[column]]);
+        const emptyColumn = CSV_COLUMNS.find(column => fields[columnIndex[column]] === '');
+        if (emptyColumn) {
+            issues.push({ location, message: `Column "${emptyColumn}" is empty` });
+            continue;
+        }
+
+        const sample = Number(sampleText);
+        if (!Number.isFinite(sample)) {
+            issues.push({ location, message: `Sample is not a finite number: "${sampleText}"` });
+            continue;
+        }
+
+        const runId = `${versionId}/${experimentId}/${runName}`;
+        let run = runs.get(runId);
+        if (!run) {
+            run = { id: runId, versionId, experimentId, timestamp: now + runs.size, trials: [] };
+            runs.set(runId, run);
+        }
+
+        const trialKey = `${runId}/${trialName}`;
+        let trial = trials.get(trialKey);
+        if (!trial) {
+            trial = { id: `trial-${runId}/${trialName}`, timestamp: run.timestamp + run.trials.length, samples: [] };
+            trials.set(trialKey, trial);
+            run.trials.push(trial);
+        }
+        trial.samples.push(sample);
+    }
+
+    if (runs.size === 0 && issues.length === 0) {
+        issues.push({ location: `line ${headerIndex + 1}`, message: 'File contains no data rows' });
+    }
+
+    dataset.runs = Array.from(runs.values());
+    addMissingReferences(dataset, now);
+    return buildResult(dataset, issues);
+};
+
+// Each histogram becomes a trial of a run named after the file. Tagged intervals go to
+// an experiment named after the tag, untagged ones to the target experiment.
+const buildHistogramResult = (
+    histograms: DecodedHistogram[],
+    runName: string,
+    target: HistogramImportTarget,
+    issues: ImportIssue[],
+    now: number
+): ImportResult => {
+    const dataset: RawDataset = {
+        versions: target.version ? [target.version] : [],
+        experiments: target.experiment ? [target.experiment] : [],
+        runs: []
+    };
+    const versionId = target.version?.id ?? HISTOGRAM_IMPORT_ID;
+    const runs = new Map<string, RawRun>();
+
+    histograms.forEach(({ tag, startTime, histogram }) => {
+        const experimentId = tag ?? target.experiment?.id ?? HISTOGRAM_IMPORT_ID;
+        const runId = `${versionId}/${experimentId}/${runName}`;
+        let run = runs.get(runId);
+        if (!run) {
+            run = { id: runId, versionId, experimentId, timestamp: now + runs.size, trials: [] };
+            runs.set(runId, run);
+        }
+        run.trials.push({
+            id: `trial-${runId}/${run.trials.length}`,
+            // Interval logs record when each interval started, in seconds
+            timestamp: startTime !== undefined ? Math.round(startTime * 1000) : run.timestamp + run.trials.length,
+            samples: [],
+            histogram,
+        });
+    });
+
+    if (runs.size === 0 && issues.length === 0) {
+        issues.push({ location: 'line 1', message: 'File contains no histograms' });
+    }
+
+    dataset.runs = Array.from(runs.values());
+    addMissingReferences(dataset, now);
+    return buildResult(dataset, issues);
+};
+
+// HdrHistogram interval logs (.hlog) or base64 histograms, one per line
+export const parseHistogramLogImport = async (
+    text: string,
+    runName: string,
+    target: HistogramImportTarget,
+    now: number = Date.now()
+): Promise<ImportResult> => {
+    const issues: ImportIssue[] = [];
+    const histograms: DecodedHistogram[] = [];
+
+    for (const entry of parseHistogramLog(text)) {
+        const location = `line ${entry.line}`;
+        let bytes: Uint8Array;
+        try {
+            bytes = decodeBase64(entry.encoded);
+        } catch {
+            issues.push({ location, message: 'Histogram is not valid base64' });
+            continue;
+        }
+        try {
+            const histogram = await decodeHdrHistogram(bytes);
+            if (histogram.totalCount === 0) continue;
+            histograms.push({ tag: entry.tag, startTime: entry.startTime, histogram });
+        } catch (error) {
+            issues.push({ location, message: (error as Error).message });
+        }
+    }
+
+    return buildHistogramResult(histograms, runName, target, issues, now);
+};
+
+// A single binary encoded or compressed histogram
+export const parseHistogramBinaryImport = async (
+    bytes: Uint8Array,
+    runName: string,
+    target: HistogramImportTarget,
+    now: number = Date.now()
+): Promise<ImportResult> => {
+    try {
+        const histogram = await decodeHdrHistogram(bytes);
+        return buildHistogramResult([{ histogram }], runName, target, [], now);
+    } catch (error) {
+        return buildHistogramResult([], runName, target, [{ location: 'byte 0', message: (error as Error).message }], now);
+    }
+};
+
+export const parseImportFile = async (file: File, target: HistogramImportTarget): Promise<ImportResult> => {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const runName = file.name.replace(/\.[^.]*$/, '');
+    if (isHdrEncoding(bytes)) return parseHistogramBinaryImport(bytes, runName, target);
+
+    const text = new TextDecoder().decode(bytes);
+    if (file.name.toLowerCase().endsWith('.hlog') || looksLikeHistogramLog(text)) {
+        return parseHistogramLogImport(text, runName, target);
+    }
+    const isJson = file.name.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{');
+    return isJson ? parseJsonImport(text) : parseCsvImport(text);
+};
@@ -2,7 +2,8 @@
 import { TargetVersion, Trial, Experiment, ExperimentRun } from "@/types";
 import { generateVersionId } from "../lib/versionId";
 import { SeededRandom } from "./random";
-import { generateTrial } from "./trialGeneration";
+import { DEFAULT_GENERATION_CONFIG, generateTrial } from "./trialGeneration";
+import { deriveExperimentProfile, resolveGenerationConfig } from "./profiles";
 
 interface InitialState {
     versions: TargetVersion[];
@@ -60,25 +61,25 @@ export function generateInitialState(seed: number = 12345): InitialState {
     const versions: TargetVersion[] = [];
     const runs: ExperimentRun[] = [];
 
-    // Make a copy of the experiments to avoid modifying the original
-    const experiments: Experiment[] = JSON.parse(JSON.stringify(EXPERIMENTS));
-
-    // Base configuration that matches the default app settings
-    const baseConfig = {
-        mean: 100,
-        stdDev: 10,
-        tailShift: 3,
-        tailProbability: 0.01,
-        samplesPerTrial: 20,
-    };
+    // Each experiment owns a generation profile derived from its workload parameters
+    const experiments: Experiment[] = EXPERIMENTS.map(experiment => ({
+        ...experiment,
+        parameters: { ...experiment.parameters },
+        profile: deriveExperimentProfile(experiment.parameters),
+    }));
 
     // First, create versions
     for (let i = 0; i < versionCount; i++) {
-        const versionId = generateVersionId();
+        const versionId = generateVersionId({ random: () => random.next() });
         versions.push({
             id: versionId,
             name: `Version ${i + 1}`,
             timestamp: baseTimestamp + (i * 86400000), // 1 day apart
+            // Slightly vary every experiment for each version
+            perturbation: {
+                meanShift: random.range(-2, 2),
+                stdDevScale: random.range(0.9, 1.1),
+            },
         });
     }
 
@@ -104,23 +105,8 @@ export function generateInitialState(seed: number = 12345): InitialState {
             const runId = `run-${version.id}-${experiment.id}`;
             const trials: Trial[] = [];
 
-            // Adjust parameters based on the experiment type
-            const experimentConfig = {
-                ...baseConfig,
-                // Idle: minimal variance, Heavy: high variance
-                stdDev: baseConfig.stdDev * (0.8 + (experiment.parameters.memoryPressure || 0) * 0.5),
-                // Higher CPU threads -> slightly higher mean
-                mean: baseConfig.mean + ((experiment.parameters.cpuThreads || 1) - 1) * 2,
-                // More I/O operations -> higher tailProbability
-                tailProbability: baseConfig.tailProbability * (1 + (experiment.parameters.ioRate || 0)),
-            };
-
-            // Slightly vary parameters for each version
-            const versionConfig = {
-                ...experimentConfig,
-                mean: experimentConfig.mean + random.range(-2, 2),
-                stdDev: experimentConfig.stdDev + random.range(-1, 1),
-            };
+            // Same profile and perturbation that "Run New Trial" uses for this pair
+            const versionConfig = resolveGenerationConfig(experiment, version, DEFAULT_GENERATION_CONFIG.samplesPerTrial);
 
             // Generate trials for this run
             for (let j = 0; j < trialsPerRun; j++) {
@@ -143,12 +129,13 @@ export function generateInitialState(seed: number = 12345): InitialState {
                 // Generate the actual trial data
                 const runTrial = generateTrial(versionConfig, version.id, {
                     timestamp
-                });
+                }, () => random.next());
 
                 // Copy the generated data to our trial
                 trial.buckets = runTrial.buckets;
                 trial.maxValue = runTrial.maxValue;
                 trial.sampleMean = runTrial.sampleMean;
+                trial.samples = runTrial.samples;
 
                 // Verify the trial has valid buckets
                 if (!trial.buckets || trial.buckets.length === 0) {
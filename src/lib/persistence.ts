@@ -0,0 +1,248 @@
+// persistence.ts
+import { TargetVersion, Experiment, ExperimentRun, Trial } from "@/types";
+
+// Bump this whenever the shape of a persisted Trial/ExperimentRun/etc. changes,
+// and register a migration from the previous version below.
+export const PERSISTENCE_SCHEMA_VERSION = 1;
+
+const DB_NAME = 'benchmark-histogram';
+const DB_VERSION = 1;
+const STORE_NAME = 'state';
+const DATASET_KEY = 'dataset';
+const RUN_KEY_PREFIX = 'run:';
+const LOCAL_STORAGE_KEY = 'benchmark-histogram:dataset';
+
+export interface PersistedData {
+    versions: TargetVersion[];
+    experiments: Experiment[];
+    runs: ExperimentRun[];
+}
+
+interface PersistedDocument extends PersistedData {
+    schemaVersion: number;
+    savedAt: number;
+}
+
+// Each migration upgrades a document from schema version N (its key) to N + 1
+type Migration = (document: Record<string, unknown>) => Record<string, unknown>;
+
+const migrations: Record<number, Migration> = {};
+
+interface StorageBackend {
+    name: string;
+    read: () => Promise<unknown>;
+    write: (document: PersistedDocument) => Promise<void>;
+    clear: () => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+                request.result.createObjectStore(STORE_NAME);
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB open request was blocked'));
+    });
+
+const transactionToPromise = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted'));
+    });
+
+// The dataset record lists the run ids and every run is stored under its own key, so a save
+// only writes the runs that changed instead of cloning every sample of every run. Runs are
+// replaced, never mutated, so a run object that was already written needs no new write.
+// Reads reassemble the single-document shape, which is also how older saves are stored.
+const createIndexedDbBackend = (db: IDBDatabase): StorageBackend => {
+    const withStore = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+        const transaction = db.transaction(STORE_NAME, mode);
+        return requestToPromise(fn(transaction.objectStore(STORE_NAME)));
+    };
+
+    // The run object last written under each run id
+    let writtenRuns = new Map<string, ExperimentRun>();
+
+    return {
+        name: 'indexedDB',
+        read: async () => {
+            const stored = await withStore<Record<string, unknown> | undefined>('readonly', store => store.get(DATASET_KEY));
+            if (!stored || !Array.isArray(stored.runIds)) return stored;
+
+            const { runIds, ...document } = stored;
+            const transaction = db.transaction(STORE_NAME, 'readonly');
+            const runs = await Promise.all((runIds as string[]).map(id =>
+                requestToPromise<ExperimentRun | undefined>(transaction.objectStore(STORE_NAME).get(RUN_KEY_PREFIX + id))
+            ));
+            if (runs.some(run => !run)) {
+                console.warn('⚠️ Persisted runs are missing, ignoring the saved dataset');
+                return null;
+            }
+            writtenRuns = new Map(runs.map(run => [run!.id, run!]));
+            return { ...document, runs };
+        },
+        write: async ({ runs, ...document }) => {
+            const transaction = db.transaction(STORE_NAME, 'readwrite');
+            const store = transaction.objectStore(STORE_NAME);
+            const runIds = new Set(runs.map(run => run.id));
+
+            runs.forEach(run => {
+                if (writtenRuns.get(run.id) !== run) store.put(run, RUN_KEY_PREFIX + run.id);
+            });
+            writtenRuns.forEach((_, id) => {
+                if (!runIds.has(id)) store.delete(RUN_KEY_PREFIX + id);
+            });
+            store.put({ ...document, runIds: [...runIds] }, DATASET_KEY);
+
+            await transactionToPromise(transaction);
+            writtenRuns = new Map(runs.map(run => [run.id, run]));
+        },
+        clear: async () => {
+            await withStore('readwrite', store => store.clear());
+            writtenRuns = new Map();
+        },
+    };
+};
+
+// localStorage holds only a few megabytes, less than one large trial's raw samples, so the
+// fallback keeps each trial's buckets and summary and drops the samples. Reloaded trials are
+// charted from their buckets like imported histograms.
+const withoutSamples = (run: ExperimentRun): ExperimentRun => ({
+    ...run,
+    trials: run.trials.map(({ samples: _samples, ...trial }): Trial => trial),
+});
+
+const createLocalStorageBackend = (): StorageBackend => ({
+    name: 'localStorage',
+    read: async () => {
+        const raw = localStorage.getItem(LOCAL_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : null;
+    },
+    write: async (document) => {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify({ ...document, runs: document.runs.map(withoutSamples) }));
+    },
+    clear: async () => {
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+    },
+});
+
+// Used when neither IndexedDB nor localStorage is usable (e.g. private browsing)
+const noopBackend: StorageBackend = {
+    name: 'none',
+    read: async () => null,
+    write: async () => { },
+    clear: async () => { },
+};
+
+const isLocalStorageAvailable = (): boolean => {
+    try {
+        const probeKey = `${LOCAL_STORAGE_KEY}:probe`;
+        localStorage.setItem(probeKey, probeKey);
+        localStorage.removeItem(probeKey);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+
+const getBackend = (): Promise<StorageBackend> => {
+    if (!backendPromise) {
+        backendPromise = openDatabase()
+            .then(createIndexedDbBackend)
+            .catch(error => {
+                console.warn('⚠️ IndexedDB unavailable, falling back to localStorage:', error);
+                return isLocalStorageAvailable() ? createLocalStorageBackend() : noopBackend;
+            });
+    }
+    return backendPromise;
+};
+
+const isPersistedData = (value: Record<string, unknown>): value is Record<string, unknown> & PersistedData =>
+    Array.isArray(value.versions) &&
+    Array.isArray(value.experiments) &&
+    Array.isArray(value.runs);
+
+// Upgrade a raw stored document to the current schema, or return null if it
+// cannot be used (unknown shape or written by a newer version of the app)
+export const migrateDocument = (raw: unknown): PersistedData | null => {
+    if (!raw || typeof raw !== 'object') return null;
+
+    let document = raw as Record<string, unknown>;
+    let schemaVersion = typeof document.schemaVersion === 'number' ? document.schemaVersion : 0;
+
+    if (schemaVersion > PERSISTENCE_SCHEMA_VERSION) {
+        console.warn('⚠️ Persisted data was written by a newer schema version:', schemaVersion);
+        return null;
+    }
+
+    while (schemaVersion < PERSISTENCE_SCHEMA_VERSION) {
+        const migrate = migrations[schemaVersion];
+        if (!migrate) {
+            console.warn('⚠️ No migration registered from schema version:', schemaVersion);
+            return null;
+        }
+        document = migrate(document);
+        schemaVersion++;
+    }
+
+    if (!isPersistedData(document)) {
+        console.warn('⚠️ Persisted data is malformed, ignoring it');
+        return null;
+    }
+
+    return {
+        versions: document.versions,
+        experiments: document.experiments,
+        runs: document.runs,
+    };
+};
+
+export const loadPersistedState = async (): Promise<PersistedData | null> => {
+    const backend = await getBackend();
+    const raw = await backend.read();
+    const data = migrateDocument(raw);
+
+    if (data) {
+        console.log('💾 Loaded persisted state from', backend.name, {
+            versionsCount: data.versions.length,
+            experimentsCount: data.experiments.length,
+            runsCount: data.runs.length
+        });
+    }
+
+    return data;
+};
+
+export const savePersistedState = async (data: PersistedData): Promise<void> => {
+    const backend = await getBackend();
+    await backend.write({
+        schemaVersion: PERSISTENCE_SCHEMA_VERSION,
+        savedAt: Date.now(),
+        versions: data.versions,
+        experiments: data.experiments,
+        runs: data.runs,
+    });
+};
+
+export const clearPersistedState = async (): Promise<void> => {
+    const backend = await getBackend();
+    await backend.clear();
+};
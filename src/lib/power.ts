@@ -0,0 +1,197 @@
+// power.ts
+import { GenerationProfile } from '@/types';
+import { ComparisonBasis, collectComparisonValues, compareValues } from './comparison';
+import { distributionMoments } from './distributions';
+import { applyVersionPerturbation } from './profiles';
+import { deriveSeed, xorshift } from './random';
+import { mannWhitneyU, normalQuantile } from './statistics';
+import { MAX_SAMPLES_PER_TRIAL, generateTrial, resolveDistribution } from './trialGeneration';
+import { MAX_BATCH_TRIALS } from './batchRunner';
+
+export interface PowerInputs {
+    profile: GenerationProfile;
+    // Smallest change of the mean worth detecting, relative to the mean (0.02 = 2%)
+    minimumDetectableEffect: number;
+    alpha: number;
+    power: number;
+    basis: ComparisonBasis;
+    // The comparison's change threshold: a significant change smaller than this isn't flagged
+    threshold: number;
+    // Kept when possible; only raised if the trial count would exceed the batch limit
+    preferredSamplesPerTrial: number;
+}
+
+export interface PowerPlan {
+    mean: number;
+    stdDev: number;              // Per-sample standard deviation of the profile
+    effect: number;              // Minimum detectable effect in sample units
+    minimumTrials: number;       // Fewest trials per version the test can reach significance with
+    trials: number;              // Per version
+    samplesPerTrial: number;
+    samplesPerVersion: number;
+    // False when even the largest batch of the largest trials falls short of the target power;
+    // trials and samplesPerTrial are then those limits
+    withinLimits: boolean;
+}
+
+export interface PowerSimulationResult {
+    replications: number;
+    detections: number;
+    power: number;
+    cancelled: boolean;
+}
+
+export interface PowerSimulationOptions {
+    replications?: number;
+    seed?: number;
+    signal?: AbortSignal;
+    onProgress?: (completed: number, total: number) => void;
+}
+
+// Bound on samples generated by one simulation so it finishes in seconds
+const MAX_SIMULATION_SAMPLES = 20_000_000;
+const MIN_SIMULATION_REPLICATIONS = 20;
+
+// Asymptotic relative efficiency of Mann-Whitney vs the t-test for normal data (3/π).
+// The app's verdict uses Mann-Whitney, so the t-test sample size is scaled up by its inverse.
+const MANN_WHITNEY_EFFICIENCY = 3 / Math.PI;
+
+// True mean and standard deviation of the profile's sample distribution; stdDev is
+// Infinity for heavy tails without a variance (Pareto with α ≤ 2)
+export const profileMoments = (profile: GenerationProfile): { mean: number; stdDev: number } =>
+    distributionMoments(resolveDistribution(profile));
+
+// Why the normal approximation can't plan for the profile, or null when it can
+export const planningIssue = (profile: GenerationProfile): string | null => {
+    const { mean, stdDev } = profileMoments(profile);
+    if (!Number.isFinite(stdDev)) {
+        return "The profile's distribution has no finite variance (a Pareto tail index of 2 or less), so no sample size guarantees the power";
+    }
+    if (!Number.isFinite(mean) || mean === 0) {
+        return "The profile's mean is zero or undefined, so an effect relative to the mean can't be planned for";
+    }
+    return null;
+};
+
+// Why no sample size reaches the target under the comparison's change threshold, or null
+export const thresholdIssue = (inputs: PowerInputs): string | null =>
+    inputs.minimumDetectableEffect <= inputs.threshold
+        ? `The comparison only flags changes of at least ${100 * inputs.threshold}% of the mean, so a ${100 * inputs.minimumDetectableEffect}% change is flagged at most about half the time however many samples are taken. Plan for an effect above the threshold`
+        : null;
+
+// Fewest values per group for which completely separated groups give p < alpha
+export const minimumGroupSize = (alpha: number): number => {
+    for (let size = 2; size < 100; size++) {
+        const low = Array.from({ length: size }, (_, i) => i);
+        const high = low.map(v => v + size);
+        if (mannWhitneyU(low, high).pValue < alpha) return size;
+    }
+    return 100;
+};
+
+// Analytic two-sided sample size for a shift of the mean, scaled for Mann-Whitney; null when
+// planningIssue or thresholdIssue rejects the inputs.
+// A change is only flagged when the test is significant and the observed change of the mean
+// reaches the threshold, so with a threshold each of the two must fail with at most half of
+// the allowed miss rate (a Bonferroni bound on both failing).
+export const planSampleSize = (inputs: PowerInputs): PowerPlan | null => {
+    const { profile, minimumDetectableEffect, alpha, power, basis, threshold, preferredSamplesPerTrial } = inputs;
+    if (planningIssue(profile) || thresholdIssue(inputs)) return null;
+    const { mean, stdDev } = profileMoments(profile);
+    const effect = Math.abs(mean) * minimumDetectableEffect;
+    const zPower = normalQuantile(threshold > 0 ? 1 - (1 - power) / 2 : power);
+    // Values per group needed if each value had the per-sample variance: enough for the test,
+    // and enough for the difference of the means to land above the threshold
+    const testSize = 2 * ((normalQuantile(1 - alpha / 2) + zPower) * stdDev / effect) ** 2 / MANN_WHITNEY_EFFICIENCY;
+    const thresholdSize = threshold > 0
+        ? 2 * (zPower * stdDev / (effect - Math.abs(mean) * threshold)) ** 2
+        : 0;
+    const perSampleSize = Math.max(testSize, thresholdSize);
+    const minimumTrials = basis === 'trial-means' ? minimumGroupSize(alpha) : 1;
+
+    // Each value is a trial mean, whose variance shrinks with samples per trial; or every sample
+    // is a value and only the total matters
+    const total = basis === 'trial-means'
+        ? perSampleSize
+        : Math.max(minimumGroupSize(alpha), Math.ceil(perSampleSize));
+    // Keep the preferred trial size unless the trial count would exceed what one batch can run;
+    // when comparing samples, split the total evenly over the trials
+    let samplesPerTrial: number;
+    if (basis === 'trial-means') {
+        samplesPerTrial = Math.max(preferredSamplesPerTrial, Math.ceil(total / MAX_BATCH_TRIALS));
+    } else {
+        const evenTrials = Math.max(1, Math.min(MAX_BATCH_TRIALS, Math.ceil(total / preferredSamplesPerTrial)));
+        samplesPerTrial = Math.ceil(total / evenTrials);
+    }
+    samplesPerTrial = Math.min(samplesPerTrial, MAX_SAMPLES_PER_TRIAL);
+    // Recounted after capping the trial size, since capped trials need more of them
+    const neededTrials = Math.max(minimumTrials, Math.ceil(total / samplesPerTrial));
+    const trials = Math.min(neededTrials, MAX_BATCH_TRIALS);
+
+    return {
+        mean,
+        stdDev,
+        effect,
+        minimumTrials,
+        trials,
+        samplesPerTrial,
+        samplesPerVersion: trials * samplesPerTrial,
+        withinLimits: neededTrials <= MAX_BATCH_TRIALS,
+    };
+};
+
+export const simulationReplications = (plan: PowerPlan, requested: number): number =>
+    Math.min(requested, Math.floor(MAX_SIMULATION_SAMPLES / (2 * plan.samplesPerVersion)));
+
+export const canSimulatePlan = (plan: PowerPlan): boolean =>
+    simulationReplications(plan, Infinity) >= MIN_SIMULATION_REPLICATIONS;
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Empirical power of the plan: generate baseline and shifted-candidate trials with generateTrial,
+// compare them with the same test as the version comparison, and count detected increases
+export const simulatePower = async (
+    inputs: PowerInputs,
+    plan: PowerPlan,
+    options: PowerSimulationOptions = {}
+): Promise<PowerSimulationResult> => {
+    const { seed = 1, signal, onProgress } = options;
+    const replications = simulationReplications(plan, options.replications ?? 200);
+    const baselineConfig = { ...inputs.profile, samplesPerTrial: plan.samplesPerTrial };
+    const candidateConfig = {
+        ...applyVersionPerturbation(inputs.profile, { meanShift: plan.effect, stdDevScale: 1 }),
+        samplesPerTrial: plan.samplesPerTrial,
+    };
+
+    const generateRun = (config: typeof baselineConfig, replication: number, group: string) => ({
+        id: `power-${group}-${replication}`,
+        versionId: group,
+        experimentId: 'power',
+        timestamp: 0,
+        trials: Array.from({ length: plan.trials }, (_, index) =>
+            generateTrial(config, group, {}, xorshift(deriveSeed(seed, 'power', group, replication, index)))
+        ),
+    });
+
+    let detections = 0;
+    for (let replication = 0; replication < replications; replication++) {
+        if (signal?.aborted) {
+            return { replications: replication, detections, power: replication > 0 ? detections / replication : NaN, cancelled: true };
+        }
+
+        const baseline = collectComparisonValues([generateRun(baselineConfig, replication, 'baseline')], inputs.basis);
+        const candidate = collectComparisonValues([generateRun(candidateConfig, replication, 'candidate')], inputs.basis);
+        const result = compareValues(baseline, candidate, {
+            basis: inputs.basis,
+            alpha: inputs.alpha,
+            threshold: inputs.threshold,
+            higherIsWorse: true,
+        });
+        if (result.verdict === 'regression') detections++;
+
+        onProgress?.(replication + 1, replications);
+        await yieldToBrowser();
+    }
+
+    return { replications, detections, power: replications > 0 ? detections / replications : NaN, cancelled: false };
+};
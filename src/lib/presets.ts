@@ -0,0 +1,79 @@
+// presets.ts
+import { DEFAULT_GENERATION_CONFIG, TrialGenerationConfig, validateGenerationConfig } from './trialGeneration';
+import { defaultDistributionSpec } from './distributions';
+
+export interface GenerationPreset {
+    name: string;
+    config: TrialGenerationConfig;
+    builtIn?: boolean;
+}
+
+const PRESETS_STORAGE_KEY = 'benchmark-histogram:presets';
+
+export const BUILT_IN_PRESETS: GenerationPreset[] = [
+    { name: 'Default', builtIn: true, config: DEFAULT_GENERATION_CONFIG },
+    {
+        name: 'Quiet machine',
+        builtIn: true,
+        config: { ...DEFAULT_GENERATION_CONFIG, stdDev: 3, tailProbability: 0.001 }
+    },
+    {
+        name: 'Noisy neighbours',
+        builtIn: true,
+        config: { ...DEFAULT_GENERATION_CONFIG, stdDev: 15, tailShift: 5, tailProbability: 0.08 }
+    },
+    {
+        name: 'Log-normal latency',
+        builtIn: true,
+        config: { ...DEFAULT_GENERATION_CONFIG, samplesPerTrial: 50, distribution: defaultDistributionSpec('lognormal') }
+    },
+];
+
+// Built-in names are reserved: a saved preset under one could never be selected or deleted
+export const isBuiltInPresetName = (name: string): boolean =>
+    BUILT_IN_PRESETS.some(p => p.name.toLowerCase() === name.trim().toLowerCase());
+
+const isValidPreset = (value: unknown): value is GenerationPreset => {
+    if (!value || typeof value !== 'object') return false;
+    const preset = value as GenerationPreset;
+    return typeof preset.name === 'string' &&
+        !isBuiltInPresetName(preset.name) &&
+        !!preset.config &&
+        Object.keys(validateGenerationConfig(preset.config)).length === 0;
+};
+
+// User-saved presets; anything malformed in storage is dropped
+export const loadSavedPresets = (): GenerationPreset[] => {
+    try {
+        const raw = localStorage.getItem(PRESETS_STORAGE_KEY);
+        const parsed: unknown = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed) ? parsed.filter(isValidPreset) : [];
+    } catch (error) {
+        console.warn('⚠️ Could not load saved presets:', error);
+        return [];
+    }
+};
+
+const writeSavedPresets = (presets: GenerationPreset[]) => {
+    try {
+        localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (error) {
+        console.error('❌ Could not save presets:', error);
+    }
+};
+
+// Saving under an existing name replaces that preset
+export const savePreset = (name: string, config: TrialGenerationConfig): GenerationPreset[] => {
+    const presets = [
+        ...loadSavedPresets().filter(p => p.name !== name),
+        { name, config }
+    ];
+    writeSavedPresets(presets);
+    return presets;
+};
+
+export const deletePreset = (name: string): GenerationPreset[] => {
+    const presets = loadSavedPresets().filter(p => p.name !== name);
+    writeSavedPresets(presets);
+    return presets;
+};
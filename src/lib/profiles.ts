@@ -0,0 +1,73 @@
+// profiles.ts
+import { Experiment, GenerationProfile, TargetVersion, VersionPerturbation } from '@/types';
+import { DEFAULT_GENERATION_CONFIG, TrialGenerationConfig, validateGenerationConfig } from './trialGeneration';
+
+// Profile implied by an experiment's workload parameters, for experiments without an explicit one
+export const deriveExperimentProfile = (parameters: Experiment['parameters']): GenerationProfile => {
+    const { mean, stdDev, tailShift, tailProbability } = DEFAULT_GENERATION_CONFIG;
+    return {
+        // Higher CPU threads -> slightly higher mean
+        mean: mean + ((parameters.cpuThreads || 1) - 1) * 2,
+        // Idle: minimal variance, Heavy: high variance
+        stdDev: stdDev * (0.8 + (parameters.memoryPressure || 0) * 0.5),
+        tailShift,
+        // More I/O operations -> higher tailProbability
+        tailProbability: tailProbability * (1 + (parameters.ioRate || 0)),
+    };
+};
+
+export const getExperimentProfile = (experiment: Experiment): GenerationProfile =>
+    experiment.profile ?? deriveExperimentProfile(experiment.parameters);
+
+export const applyVersionPerturbation = (
+    profile: GenerationProfile,
+    perturbation: VersionPerturbation | undefined
+): GenerationProfile => {
+    if (!perturbation) return profile;
+    const { meanShift, stdDevScale } = perturbation;
+
+    if (!profile.distribution) {
+        return { ...profile, mean: profile.mean + meanShift, stdDev: profile.stdDev * stdDevScale };
+    }
+
+    // Compose with any adjustment the spec already carries
+    const { shift = 0, scale = 1 } = profile.distribution;
+    return {
+        ...profile,
+        distribution: {
+            ...profile.distribution,
+            shift: shift * stdDevScale + meanShift,
+            scale: scale * stdDevScale,
+        }
+    };
+};
+
+// The configuration trials for this experiment/version pair are generated with
+export const resolveGenerationConfig = (
+    experiment: Experiment,
+    version: TargetVersion | null,
+    samplesPerTrial: number
+): TrialGenerationConfig => ({
+    ...applyVersionPerturbation(getExperimentProfile(experiment), version?.perturbation),
+    samplesPerTrial,
+});
+
+export const toGenerationProfile = ({ mean, stdDev, tailShift, tailProbability, distribution }: TrialGenerationConfig): GenerationProfile =>
+    distribution
+        ? { mean, stdDev, tailShift, tailProbability, distribution }
+        : { mean, stdDev, tailShift, tailProbability };
+
+// Imported profiles/perturbations are only kept when they could actually drive generation
+export const parseGenerationProfile = (value: unknown): GenerationProfile | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const profile = toGenerationProfile({ ...(value as GenerationProfile), samplesPerTrial: 1 });
+    return Object.keys(validateGenerationConfig({ ...profile, samplesPerTrial: 1 })).length === 0 ? profile : undefined;
+};
+
+export const parseVersionPerturbation = (value: unknown): VersionPerturbation | undefined => {
+    if (typeof value !== 'object' || value === null) return undefined;
+    const { meanShift, stdDevScale } = value as VersionPerturbation;
+    return Number.isFinite(meanShift) && Number.isFinite(stdDevScale) && stdDevScale > 0
+        ? { meanShift, stdDevScale }
+        : undefined;
+};
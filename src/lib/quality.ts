@@ -0,0 +1,217 @@
+// quality.ts
+import { Trial } from '@/types';
+import { getSortedTrialSamples } from './binning';
+import { summarizeBox } from './density';
+import { binomialUpperTail, mean, median, quantileSorted, standardDeviation, studentTTwoSidedPValue } from './statistics';
+import { cachedFor } from './statsCache';
+
+export type QualityFlag = 'outliers' | 'grubbs' | 'bimodal';
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlag, { label: string; description: string }> = {
+    outliers: {
+        label: 'Many outliers',
+        description: "Significantly more samples outside the IQR fences, or with a MAD z-score above 3.5, than the run's other trials",
+    },
+    grubbs: {
+        label: 'Mean is an outlier',
+        description: "Grubbs' test (α = 0.05) finds this trial's mean inconsistent with the run's other trials",
+    },
+    bimodal: {
+        label: 'Bimodal',
+        description: "Bimodality coefficient above 5/9 while the run's other trials are unimodal; the trial may mix two regimes, e.g. a noisy neighbour",
+    },
+};
+
+// Skewed models put many samples outside the fences by design (about 7% for a Pareto with
+// α = 4), so a trial's outlier rate is judged against its sibling trials' rate. It must be
+// this many times higher, and significantly so, to flag the trial.
+const OUTLIER_RATE_RATIO = 3;
+const OUTLIER_ALPHA = 0.01;
+
+// Flags compare a trial with its siblings, so a run needs this many trials to raise any
+const MIN_TRIALS_FOR_FLAGS = 3;
+
+// Iglewicz–Hoaglin cutoff for the modified z-score 0.6745·|x - median| / MAD
+const MAD_Z_LIMIT = 3.5;
+
+// A uniform distribution scores exactly 5/9; higher values suggest more than one mode
+const BIMODALITY_LIMIT = 5 / 9;
+
+const GRUBBS_ALPHA = 0.05;
+
+export interface TrialQuality {
+    sampleCount: number;
+    iqrOutliers: number;
+    madOutliers: number;
+    bimodalityCoefficient: number;   // NaN with fewer than 4 samples
+    flags: QualityFlag[];
+}
+
+export interface RunQuality {
+    trials: Map<string, TrialQuality>;
+    grubbsOutlierIds: string[];
+    flaggedTrialIds: Set<string>;
+}
+
+// Sample bimodality coefficient (g² + 1) / (k + 3(n-1)²/((n-2)(n-3))), with g the
+// bias-corrected skewness and k the bias-corrected excess kurtosis
+export const bimodalityCoefficient = (values: ArrayLike<number>): number => {
+    const n = values.length;
+    if (n < 4) return NaN;
+
+    const m = mean(values);
+    let m2 = 0;
+    let m3 = 0;
+    let m4 = 0;
+    for (let i = 0; i < n; i++) {
+        const d = values[i] - m;
+        m2 += d * d;
+        m3 += d * d * d;
+        m4 += d * d * d * d;
+    }
+    m2 /= n;
+    m3 /= n;
+    m4 /= n;
+    if (m2 === 0) return NaN;
+
+    const skewness = Math.sqrt(n * (n - 1)) / (n - 2) * m3 / m2 ** 1.5;
+    const kurtosis = (n - 1) / ((n - 2) * (n - 3)) * ((n + 1) * m4 / (m2 * m2) - 3 * (n - 1));
+    return (skewness ** 2 + 1) / (kurtosis + 3 * (n - 1) ** 2 / ((n - 2) * (n - 3)));
+};
+
+// |x - center| for ascending `sorted`, in ascending order. The deviations below and above
+// the center are each already ordered, so merging them avoids a second sort.
+const sortedDeviations = (sorted: Float64Array, center: number): Float64Array => {
+    let split = 0;
+    while (split < sorted.length && sorted[split] < center) split++;
+    const deviations = new Float64Array(sorted.length);
+    let below = split - 1;
+    let above = split;
+    for (let k = 0; k < deviations.length; k++) {
+        const lower = below >= 0 ? center - sorted[below] : Infinity;
+        const upper = above < sorted.length ? sorted[above] - center : Infinity;
+        if (lower <= upper) {
+            deviations[k] = lower;
+            below--;
+        } else {
+            deviations[k] = upper;
+            above++;
+        }
+    }
+    return deviations;
+};
+
+// Cached per trial; the flags are left empty because they depend on the sibling trials
+export const assessTrialQuality = (trial: Trial): TrialQuality =>
+    cachedFor(trial, 'quality', () => measureTrialQuality(getSortedTrialSamples(trial)));
+
+const measureTrialQuality = (samples: Float64Array): TrialQuality => {
+    const box = summarizeBox(samples);
+    if (!box) return { sampleCount: 0, iqrOutliers: 0, madOutliers: 0, bimodalityCoefficient: NaN, flags: [] };
+
+    const deviations = sortedDeviations(samples, box.median);
+    const mad = quantileSorted(deviations, 0.5);
+    let madOutliers = 0;
+    if (mad > 0) {
+        for (let i = 0; i < deviations.length; i++) {
+            if (0.6745 * deviations[i] / mad > MAD_Z_LIMIT) madOutliers++;
+        }
+    }
+
+    return {
+        sampleCount: samples.length,
+        iqrOutliers: box.outlierCount,
+        madOutliers,
+        bimodalityCoefficient: bimodalityCoefficient(samples),
+        flags: [],
+    };
+};
+
+// Whether `count` of `sampleCount` outliers is well above the siblings' pooled rate. The
+// binomial test is Bonferroni-adjusted for the number of trials tested; siblings without any
+// outliers are given half of one so a single outlier isn't infinitely surprising.
+const exceedsSiblingRate = (
+    count: number,
+    sampleCount: number,
+    siblingCount: number,
+    siblingSamples: number,
+    trialCount: number
+): boolean => {
+    if (sampleCount === 0 || siblingSamples === 0) return false;
+    const rate = Math.max(siblingCount, 0.5) / siblingSamples;
+    return count / sampleCount >= OUTLIER_RATE_RATIO * rate &&
+        trialCount * binomialUpperTail(count, sampleCount, Math.min(rate, 1)) < OUTLIER_ALPHA;
+};
+
+// Iterated two-sided Grubbs' test on the trial means: remove the most extreme mean while it
+// is significant, up to a quarter of the trials but at least one, so runs of 3 are tested too. G is converted to a t statistic so the
+// Bonferroni-adjusted p-value n·P(|T| > t) can be compared with α directly.
+export const grubbsOutliers = (trials: Trial[], alpha: number = GRUBBS_ALPHA): string[] => {
+    const remaining = trials.map(t => ({ id: t.id, value: t.sampleMean }));
+    const outliers: string[] = [];
+
+    while (remaining.length >= 3 && outliers.length < Math.max(1, Math.floor(trials.length / 4))) {
+        const n = remaining.length;
+        const values = remaining.map(r => r.value);
+        const m = mean(values);
+        const sd = standardDeviation(values);
+        if (!(sd > 0)) break;
+
+        let extreme = 0;
+        remaining.forEach((r, i) => {
+            if (Math.abs(r.value - m) > Math.abs(remaining[extreme].value - m)) extreme = i;
+        });
+        const g = Math.abs(remaining[extreme].value - m) / sd;
+        const denominator = (n - 1) ** 2 - n * g * g;
+        const t = denominator > 0 ? Math.sqrt(n * (n - 2) * g * g / denominator) : Infinity;
+        const pValue = Number.isFinite(t) ? Math.min(1, n * studentTTwoSidedPValue(t, n - 2)) : 0;
+        if (pValue >= alpha) break;
+
+        outliers.push(remaining[extreme].id);
+        remaining.splice(extreme, 1);
+    }
+    return outliers;
+};
+
+// Quality of every trial of a run. Each trial is judged against its siblings, so samples a
+// skewed or bimodal model produces everywhere don't flag every trial.
+export const assessRunQuality = (trials: Trial[]): RunQuality => {
+    const grubbsOutlierIds = grubbsOutliers(trials);
+    const assessed = trials.map(assessTrialQuality);
+    const total = (key: 'sampleCount' | 'iqrOutliers' | 'madOutliers') =>
+        assessed.reduce((sum, quality) => sum + quality[key], 0);
+    const totalSamples = total('sampleCount');
+    const totalIqrOutliers = total('iqrOutliers');
+    const totalMadOutliers = total('madOutliers');
+
+    const qualities = new Map(trials.map((trial, index) => {
+        const quality: TrialQuality = { ...assessed[index], flags: [] };
+        if (trials.length >= MIN_TRIALS_FOR_FLAGS) {
+            const siblingSamples = totalSamples - quality.sampleCount;
+            if (
+                exceedsSiblingRate(quality.iqrOutliers, quality.sampleCount, totalIqrOutliers - quality.iqrOutliers, siblingSamples, trials.length) ||
+                exceedsSiblingRate(quality.madOutliers, quality.sampleCount, totalMadOutliers - quality.madOutliers, siblingSamples, trials.length)
+            ) {
+                quality.flags.push('outliers');
+            }
+
+            const siblingBimodality = assessed
+                .filter((other, i) => i !== index && Number.isFinite(other.bimodalityCoefficient))
+                .map(other => other.bimodalityCoefficient);
+            const typical = median(siblingBimodality);
+            const spread = 1.4826 * median(siblingBimodality.map(bc => Math.abs(bc - typical)));
+            if (quality.bimodalityCoefficient > BIMODALITY_LIMIT && typical <= BIMODALITY_LIMIT &&
+                quality.bimodalityCoefficient > typical + 3 * spread) {
+                quality.flags.push('bimodal');
+            }
+        }
+        if (grubbsOutlierIds.includes(trial.id)) quality.flags.push('grubbs');
+        return [trial.id, quality];
+    }));
+
+    return {
+        trials: qualities,
+        grubbsOutlierIds,
+        flaggedTrialIds: new Set(trials.filter(t => qualities.get(t.id)!.flags.length > 0).map(t => t.id)),
+    };
+};
@@ -0,0 +1,155 @@
+// quantilePlots.ts
+import { Bucket, HdrBucketSource } from '@/types';
+import { bucketQuantile } from './binning';
+import { DistributionSpec, distributionCdf, distributionQuantile } from './distributions';
+import { quantileSorted, sortAscending } from './statistics';
+
+// Observed distribution as the CDF, spectrum and Q-Q views see it, whether it comes from
+// raw samples or from recorded buckets
+export interface EmpiricalDistribution {
+    count: number;
+    domain: [number, number];
+    cdf: (x: number) => number;
+    quantile: (q: number) => number;
+}
+
+// Number of values ≤ x in sorted values
+const countAtOrBelow = (sorted: ArrayLike<number>, x: number): number => {
+    let low = 0;
+    let high = sorted.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (sorted[mid] <= x) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+};
+
+export const sampleDistribution = (samples: ArrayLike<number>): EmpiricalDistribution => {
+    const sorted = sortAscending(samples);
+    return {
+        count: sorted.length,
+        domain: sorted.length > 0 ? [sorted[0], sorted[sorted.length - 1]] : [0, 1],
+        cdf: x => sorted.length > 0 ? countAtOrBelow(sorted, x) / sorted.length : NaN,
+        quantile: q => quantileSorted(sorted, q),
+    };
+};
+
+// Counts are taken to be spread evenly across each bucket for the CDF; quantiles follow
+// bucketQuantile, so recorded histograms report HdrHistogram's values
+export const bucketDistribution = (buckets: Bucket[], source?: HdrBucketSource): EmpiricalDistribution => {
+    const sorted = buckets.filter(b => b.observed > 0).sort((a, b) => a.start - b.start);
+    const count = sorted.reduce((sum, b) => sum + b.observed, 0);
+    return {
+        count,
+        domain: sorted.length > 0 ? [sorted[0].start, sorted[sorted.length - 1].end] : [0, 1],
+        cdf: x => {
+            let below = 0;
+            for (const bucket of sorted) {
+                if (x >= bucket.end) {
+                    below += bucket.observed;
+                } else {
+                    if (x > bucket.start) below += bucket.observed * (x - bucket.start) / (bucket.end - bucket.start);
+                    break;
+                }
+            }
+            return count > 0 ? below / count : NaN;
+        },
+        quantile: q => bucketQuantile(sorted, q, source),
+    };
+};
+
+export const CURVE_POINTS = 200;
+
+export interface CdfPoint {
+    value: number;
+    empirical: number;
+    expected?: number;     // Only with a model to compare against
+}
+
+// Empirical CDF at evenly spaced values over the observed range, geometrically spaced for
+// a log axis, with the model's CDF at the same values
+export const buildCdfCurve = (
+    observed: EmpiricalDistribution,
+    model: DistributionSpec | null,
+    logScale: boolean = false,
+    points: number = CURVE_POINTS
+): CdfPoint[] => {
+    const [min, max] = observed.domain;
+    const geometric = logScale && min > 0;
+    return Array.from({ length: points + 1 }, (_, i) => {
+        const value = geometric
+            ? min * (max / min) ** (i / points)
+            : min + (max - min) * i / points;
+        return {
+            value,
+            empirical: observed.cdf(value),
+            ...(model ? { expected: distributionCdf(model, value) } : {}),
+        };
+    });
+};
+
+// Quantiles labelled on the spectrum's axis
+export const SPECTRUM_QUANTILES = [0.5, 0.9, 0.99, 0.999, 0.9999, 0.99999];
+
+export interface SpectrumPoint {
+    quantile: number;
+    position: number;      // log10(1 / (1 - q)): p90 is 1, p99 is 2, p99.9 is 3, ...
+    observed: number;
+    expected?: number;
+}
+
+export const spectrumPosition = (quantile: number): number => -Math.log10(1 - quantile);
+
+export const quantileLabel = (quantile: number): string => `p${Number((100 * quantile).toFixed(3))}`;
+
+// Percentile spectrum from the median out to the deepest quantile the data resolves:
+// p99.99 needs at least 10,000 values, so fewer values stop the curve earlier
+export const buildPercentileSpectrum = (
+    observed: EmpiricalDistribution,
+    model: DistributionSpec | null,
+    points: number = CURVE_POINTS
+): SpectrumPoint[] => {
+    const start = spectrumPosition(SPECTRUM_QUANTILES[0]);
+    const end = Math.max(start, Math.min(Math.log10(observed.count), spectrumPosition(SPECTRUM_QUANTILES[SPECTRUM_QUANTILES.length - 1])));
+    return Array.from({ length: points + 1 }, (_, i) => {
+        const position = start + (end - start) * i / points;
+        const quantile = 1 - 10 ** -position;
+        return {
+            quantile,
+            position,
+            observed: observed.quantile(quantile),
+            ...(model ? { expected: distributionQuantile(model, quantile) } : {}),
+        };
+    });
+};
+
+export interface QqPoint {
+    quantile: number;
+    theoretical: number;
+    observed: number;
+}
+
+// Observed against model quantiles at evenly spaced probabilities, plus the resolvable tail
+// quantiles on both sides so the extremes, where the models differ most, are always plotted
+export const buildQqPoints = (
+    observed: EmpiricalDistribution,
+    model: DistributionSpec,
+    points: number = CURVE_POINTS
+): QqPoint[] => {
+    const count = Math.min(points, observed.count);
+    const tails = SPECTRUM_QUANTILES
+        .filter(q => observed.count * (1 - q) >= 1)
+        .flatMap(q => [q, 1 - q]);
+    const quantiles = [...Array.from({ length: count }, (_, i) => (i + 0.5) / count), ...tails]
+        .sort((a, b) => a - b);
+
+    return quantiles.map(quantile => ({
+        quantile,
+        theoretical: distributionQuantile(model, quantile),
+        observed: observed.quantile(quantile),
+    }));
+};
@@ -9,8 +9,13 @@ export const generateSeedFromId = (id: string): number => {
     return Math.abs(hash);
 };
 
+// Seed for an independent stream keyed by the app seed plus e.g. a run id and trial index
+export const deriveSeed = (seed: number, ...keys: (string | number)[]): number =>
+    generateSeedFromId([seed, ...keys].join(':'));
+
 export const xorshift = (seed: number): () => number => {
-    let state = seed;
+    // A zero state would only ever produce zeros
+    let state = seed || 1;
     return () => {
         state ^= state << 13;
         state ^= state >> 17;
@@ -0,0 +1,57 @@
+// runs.ts
+import { Experiment, ExperimentRun, RunMetadata, Trial } from '@/types';
+
+// Runs of one version/experiment pair, oldest first
+export const getPairRuns = (runs: ExperimentRun[], versionId: string, experimentId: string): ExperimentRun[] =>
+    runs
+        .filter(r => r.versionId === versionId && r.experimentId === experimentId)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+// Deterministic ID for a new run of the pair: the first is `run-<version>-<experiment>`, later
+// ones get a numeric suffix. Trial seeds are derived from run IDs, so these stay reproducible.
+export const nextRunId = (runs: ExperimentRun[], versionId: string, experimentId: string): string => {
+    const base = `run-${versionId}-${experimentId}`;
+    const taken = new Set(runs.map(r => r.id));
+    if (!taken.has(base)) return base;
+
+    let suffix = 2;
+    while (taken.has(`${base}-${suffix}`)) suffix++;
+    return `${base}-${suffix}`;
+};
+
+// Deterministic ID for an experiment created in the app, `exp-<name slug>-<n>`. Run IDs, and so
+// trial seeds, are built from it, so it can't depend on the clock.
+export const nextExperimentId = (experiments: Experiment[], name: string): string => {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'experiment';
+    const taken = new Set(experiments.map(e => e.id));
+    let n = experiments.length + 1;
+    while (taken.has(`exp-${slug}-${n}`)) n++;
+    return `exp-${slug}-${n}`;
+};
+
+// "Run 2 · host-a · 3f9c2e1", numbered by position among its pair's runs
+export const describeRun = (run: ExperimentRun, pairRuns: ExperimentRun[]): string => {
+    const number = pairRuns.findIndex(r => r.id === run.id) + 1;
+    const details = [run.metadata?.host, run.metadata?.commit?.slice(0, 7)].filter(Boolean);
+    return [`Run ${number > 0 ? number : '?'}`, ...details].join(' · ');
+};
+
+// Trials of `sources` re-parented to `target`, renaming any whose ID is already used
+export const mergeRunTrials = (target: ExperimentRun, sources: ExperimentRun[]): Trial[] => {
+    const taken = new Set(target.trials.map(t => t.id));
+    const moved = sources.flatMap(source => source.trials.map(trial => {
+        let id = trial.id;
+        for (let suffix = 2; taken.has(id); suffix++) id = `${trial.id}-${suffix}`;
+        taken.add(id);
+        return { ...trial, id, runId: target.id };
+    }));
+    return [...target.trials, ...moved];
+};
+
+// Drops blank fields so runs without metadata stay without it
+export const normalizeRunMetadata = (metadata: RunMetadata): RunMetadata | undefined => {
+    const entries = Object.entries(metadata)
+        .map(([key, value]) => [key, typeof value === 'string' ? value.trim() : value] as const)
+        .filter(([, value]) => typeof value === 'string' && value !== '');
+    return entries.length > 0 ? Object.fromEntries(entries) as RunMetadata : undefined;
+};
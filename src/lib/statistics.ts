@@ -0,0 +1,287 @@
+// statistics.ts
+
+// Abramowitz & Stegun 7.1.26 approximation (max error ~1.5e-7)
+export const erf = (x: number): number => {
+    const sign = Math.sign(x);
+    x = Math.abs(x);
+    const t = 1.0 / (1.0 + 0.3275911 * x);
+    const y = 1.0 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return sign * y;
+};
+
+export const normalCdf = (x: number, mean: number = 0, stdDev: number = 1): number =>
+    0.5 * (1 + erf((x - mean) / (Math.SQRT2 * stdDev)));
+
+// Acklam's rational approximation of the inverse normal CDF (relative error ~1.2e-9)
+const ACKLAM_A = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+const ACKLAM_B = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+const ACKLAM_C = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+const ACKLAM_D = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+
+export const normalQuantile = (p: number, mean: number = 0, stdDev: number = 1): number => {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    const [a1, a2, a3, a4, a5, a6] = ACKLAM_A;
+    const [b1, b2, b3, b4, b5] = ACKLAM_B;
+    const [c1, c2, c3, c4, c5, c6] = ACKLAM_C;
+    const [d1, d2, d3, d4] = ACKLAM_D;
+    const pLow = 0.02425;
+
+    let z: number;
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        z = (((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) / ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
+    } else if (p <= 1 - pLow) {
+        const q = p - 0.5;
+        const r = q * q;
+        z = (((((a1 * r + a2) * r + a3) * r + a4) * r + a5) * r + a6) * q / (((((b1 * r + b2) * r + b3) * r + b4) * r + b5) * r + 1);
+    } else {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        z = -(((((c1 * q + c2) * q + c3) * q + c4) * q + c5) * q + c6) / ((((d1 * q + d2) * q + d3) * q + d4) * q + 1);
+    }
+    return mean + z * stdDev;
+};
+
+export const mean = (values: ArrayLike<number>): number => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[i];
+    return values.length > 0 ? sum / values.length : NaN;
+};
+
+// Sample variance (n - 1 denominator)
+export const variance = (values: ArrayLike<number>): number => {
+    if (values.length < 2) return NaN;
+    const m = mean(values);
+    let sumSq = 0;
+    for (let i = 0; i < values.length; i++) sumSq += (values[i] - m) ** 2;
+    return sumSq / (values.length - 1);
+};
+
+export const standardDeviation = (values: ArrayLike<number>): number => Math.sqrt(variance(values));
+
+const isSortedAscending = (values: Float64Array): boolean => {
+    for (let i = 1; i < values.length; i++) {
+        if (!(values[i - 1] <= values[i])) return false;
+    }
+    return true;
+};
+
+// Already-sorted Float64Arrays, such as the cached sorted trial samples, are returned as they
+// are rather than copied, so the result must be treated as read-only
+export const sortAscending = (values: ArrayLike<number>): Float64Array =>
+    values instanceof Float64Array && isSortedAscending(values)
+        ? values
+        : Float64Array.from(values).sort();
+
+const mergeTwoSorted = (a: Float64Array, b: Float64Array): Float64Array => {
+    const merged = new Float64Array(a.length + b.length);
+    let i = 0;
+    let j = 0;
+    let k = 0;
+    while (i < a.length && j < b.length) merged[k++] = a[i] <= b[j] ? a[i++] : b[j++];
+    while (i < a.length) merged[k++] = a[i++];
+    while (j < b.length) merged[k++] = b[j++];
+    return merged;
+};
+
+// Merges ascending arrays into one ascending array. Pairwise merging takes O(n log k) for k
+// arrays, against O(n log n) for sorting the concatenation.
+export const mergeSorted = (arrays: readonly Float64Array[]): Float64Array => {
+    if (arrays.length === 0) return new Float64Array(0);
+    let level = [...arrays];
+    while (level.length > 1) {
+        const next: Float64Array[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? mergeTwoSorted(level[i], level[i + 1]) : level[i]);
+        }
+        level = next;
+    }
+    return level[0];
+};
+
+// Linear-interpolated quantile of already-sorted values (the "R-7" definition)
+export const quantileSorted = (sorted: ArrayLike<number>, q: number): number => {
+    if (sorted.length === 0) return NaN;
+    const position = (sorted.length - 1) * Math.min(Math.max(q, 0), 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const quantile = (values: ArrayLike<number>, q: number): number =>
+    quantileSorted(sortAscending(values), q);
+
+export const median = (values: ArrayLike<number>): number => quantile(values, 0.5);
+
+// Lanczos approximation (g = 7, n = 9)
+const LANCZOS_COEFFICIENTS = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7
+];
+
+export const logGamma = (x: number): number => {
+    if (x < 0.5) {
+        // Reflection formula
+        return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+    }
+    x -= 1;
+    let a = LANCZOS_COEFFICIENTS[0];
+    const t = x + 7.5;
+    for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+        a += LANCZOS_COEFFICIENTS[i] / (x + i);
+    }
+    return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+// Continued fraction for the incomplete beta function (Numerical Recipes `betacf`)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+    const maxIterations = 200;
+    const epsilon = 3e-14;
+    const tiny = 1e-300;
+
+    let c = 1;
+    let d = 1 - (a + b) * x / (a + 1);
+    if (Math.abs(d) < tiny) d = tiny;
+    d = 1 / d;
+    let h = d;
+
+    for (let m = 1; m <= maxIterations; m++) {
+        const m2 = 2 * m;
+        let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        h *= d * c;
+
+        aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+        d = 1 + aa * d;
+        if (Math.abs(d) < tiny) d = tiny;
+        c = 1 + aa / c;
+        if (Math.abs(c) < tiny) c = tiny;
+        d = 1 / d;
+        const delta = d * c;
+        h *= delta;
+        if (Math.abs(delta - 1) < epsilon) break;
+    }
+
+    return h;
+};
+
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    const front = Math.exp(
+        logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+    );
+    return x < (a + 1) / (a + b + 2)
+        ? front * betaContinuedFraction(x, a, b) / a
+        : 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+};
+
+// P(X ≥ k) for X ~ Binomial(n, p), through its relation to the incomplete beta function
+export const binomialUpperTail = (k: number, n: number, p: number): number => {
+    if (k <= 0) return 1;
+    if (k > n) return 0;
+    return regularizedIncompleteBeta(p, k, n - k + 1);
+};
+
+// Two-sided p-value for a Student's t statistic
+export const studentTTwoSidedPValue = (t: number, degreesOfFreedom: number): number =>
+    regularizedIncompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+
+export interface MannWhitneyResult {
+    u: number;              // U statistic for the second sample
+    z: number;
+    pValue: number;         // Two-sided, normal approximation with tie and continuity correction
+    rankBiserial: number;   // Effect size in [-1, 1]; positive when the second sample tends to be larger
+}
+
+export const mannWhitneyU = (a: ArrayLike<number>, b: ArrayLike<number>): MannWhitneyResult => {
+    const n1 = a.length;
+    const n2 = b.length;
+    const n = n1 + n2;
+    const sortedA = sortAscending(a);
+    const sortedB = sortAscending(b);
+
+    // Walk both sorted samples together, giving each run of tied values its average rank and
+    // accumulating the tie correction term as we go
+    let rankSumB = 0;
+    let tieCorrection = 0;
+    let i = 0;
+    let j = 0;
+    while (i < n1 || j < n2) {
+        const value = j >= n2 || (i < n1 && sortedA[i] <= sortedB[j]) ? sortedA[i] : sortedB[j];
+        let tiesA = 0;
+        let tiesB = 0;
+        while (i < n1 && sortedA[i] === value) {
+            i++;
+            tiesA++;
+        }
+        while (j < n2 && sortedB[j] === value) {
+            j++;
+            tiesB++;
+        }
+        const tieCount = tiesA + tiesB;
+        // NaN sorts last and equals nothing; there is nothing left to rank
+        if (tieCount === 0) break;
+        const averageRank = i + j - tieCount + (tieCount + 1) / 2;
+        rankSumB += tiesB * averageRank;
+        tieCorrection += tieCount ** 3 - tieCount;
+    }
+
+    const u = rankSumB - n2 * (n2 + 1) / 2;
+    const meanU = n1 * n2 / 2;
+    const sigmaU = Math.sqrt(n1 * n2 / 12 * ((n + 1) - tieCorrection / (n * (n - 1))));
+
+    if (!(sigmaU > 0)) {
+        return { u, z: 0, pValue: 1, rankBiserial: 0 };
+    }
+
+    const continuity = u > meanU ? -0.5 : u < meanU ? 0.5 : 0;
+    const z = (u - meanU + continuity) / sigmaU;
+    return {
+        u,
+        z,
+        pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))),
+        rankBiserial: 2 * u / (n1 * n2) - 1,
+    };
+};
+
+export interface WelchTTestResult {
+    t: number;
+    degreesOfFreedom: number;
+    pValue: number;           // Two-sided
+    meanDifference: number;   // mean(b) - mean(a)
+}
+
+export const welchTTest = (a: ArrayLike<number>, b: ArrayLike<number>): WelchTTestResult => {
+    const meanDifference = mean(b) - mean(a);
+    const varA = variance(a) / a.length;
+    const varB = variance(b) / b.length;
+    const standardError = Math.sqrt(varA + varB);
+
+    if (!(standardError > 0)) {
+        // Both samples are constant: any difference is certain, no difference is not significant
+        return { t: 0, degreesOfFreedom: a.length + b.length - 2, pValue: meanDifference === 0 ? 1 : 0, meanDifference };
+    }
+
+    const t = meanDifference / standardError;
+    const degreesOfFreedom = (varA + varB) ** 2 /
+        (varA ** 2 / (a.length - 1) + varB ** 2 / (b.length - 1));
+
+    return { t, degreesOfFreedom, pValue: studentTTwoSidedPValue(t, degreesOfFreedom), meanDifference };
+};
+
+// Hedges' g: Cohen's d with the small-sample bias correction; positive when b is larger
+export const hedgesG = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+    const n1 = a.length;
+    const n2 = b.length;
+    const pooledVariance = ((n1 - 1) * variance(a) + (n2 - 1) * variance(b)) / (n1 + n2 - 2);
+    if (!(pooledVariance > 0)) return 0;
+    const d = (mean(b) - mean(a)) / Math.sqrt(pooledVariance);
+    return d * (1 - 3 / (4 * (n1 + n2) - 9));
+};
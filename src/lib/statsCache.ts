@@ -0,0 +1,48 @@
+// statsCache.ts
+// Statistics over large trials are too slow to recompute on every state change. Trials and runs
+// are replaced, never mutated, once they are in the store, so object identity tells whether a
+// cached result is still valid.
+
+const objectResults = new WeakMap<object, Map<string, unknown>>();
+
+// Result of `compute` for one trial or run, kept for as long as that object is alive
+export const cachedFor = <T>(owner: object, key: string, compute: () => T): T => {
+    let results = objectResults.get(owner);
+    if (!results) {
+        results = new Map();
+        objectResults.set(owner, results);
+    }
+    if (!results.has(key)) results.set(key, compute());
+    return results.get(key) as T;
+};
+
+interface ListEntry {
+    items: readonly object[];
+    value: unknown;
+}
+
+// Held by the list's first object, so results over deleted or replaced runs and trials are
+// freed along with them rather than kept under their string keys
+const listResults = new WeakMap<object, Map<string, ListEntry>>();
+
+const sameItems = (a: readonly object[], b: readonly object[]): boolean =>
+    a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Result of `compute` over a list of trials or runs, reused while the slot `key` is asked about
+// the same objects. A slot keeps only its latest result, so pooled arrays don't pile up while
+// e.g. trials are added to a run. An empty list has nothing to hold it, and nothing to compute.
+export const cachedForList = <T>(key: string, items: readonly object[], compute: () => T): T => {
+    if (items.length === 0) return compute();
+
+    let slots = listResults.get(items[0]);
+    if (!slots) {
+        slots = new Map();
+        listResults.set(items[0], slots);
+    }
+    const entry = slots.get(key);
+    if (entry && sameItems(entry.items, items)) return entry.value as T;
+
+    const value = compute();
+    slots.set(key, { items, value });
+    return value;
+};
@@ -0,0 +1,88 @@
+// trend.ts
+import { ExperimentRun, TargetVersion } from '@/types';
+import { getTrialSamples, poolSortedSamples } from './binning';
+import { BootstrapSummary, bootstrapSummary } from './bootstrap';
+import { ComparisonOptions, ComparisonVerdict, DEFAULT_COMPARISON_OPTIONS, compareValues } from './comparison';
+import { generateSeedFromId } from './random';
+import { cachedForList } from './statsCache';
+import { compareVersionIds } from './versionId';
+
+// Fewer resamples than a single-run summary since every version is bootstrapped on each change
+const TREND_RESAMPLES = 200;
+
+export interface TrendPoint {
+    version: TargetVersion;
+    trialCount: number;
+    sampleCount: number;
+    summary: BootstrapSummary;
+    // Compared with the previous version that has data; null for the first one
+    changeFromPrevious: {
+        relativeChange: number;
+        pValue: number;
+        verdict: ComparisonVerdict;
+    } | null;
+}
+
+// Tagged versions in tag order, ties (e.g. untagged versions) broken by timestamp
+export const compareVersionOrder = (a: TargetVersion, b: TargetVersion): number =>
+    compareVersionIds(a.id, b.id) || a.timestamp - b.timestamp;
+
+const pooledRunSamples = (runs: ExperimentRun[]): Float64Array =>
+    poolSortedSamples(runs.flatMap(r => r.trials));
+
+// Per-version summaries of one experiment over time; versions without samples are skipped.
+// Each version's summary, and its change from the previous version, is only recomputed when
+// the runs involved change, so adding a run to one version doesn't redo the whole trend.
+export const computeVersionTrend = (
+    versions: TargetVersion[],
+    runs: ExperimentRun[],
+    experimentId: string,
+    options: ComparisonOptions = DEFAULT_COMPARISON_OPTIONS
+): TrendPoint[] => {
+    const points: TrendPoint[] = [];
+    let previous: { versionId: string; runs: ExperimentRun[] } | null = null;
+
+    [...versions].sort(compareVersionOrder).forEach(version => {
+        const versionRuns = runs.filter(r => r.versionId === version.id && r.experimentId === experimentId);
+        const trials = versionRuns.flatMap(r => r.trials);
+        const summary = cachedForList(`trend:${experimentId}:${version.id}`, versionRuns, () =>
+            bootstrapSummary(pooledRunSamples(versionRuns), {
+                resamples: TREND_RESAMPLES,
+                seed: generateSeedFromId(`${version.id}/${experimentId}`),
+            })
+        );
+        if (!summary) return;
+
+        let changeFromPrevious: TrendPoint['changeFromPrevious'] = null;
+        if (previous) {
+            const previousRuns = previous.runs;
+            const key = `trend-change:${experimentId}:${previous.versionId}:${version.id}:${previousRuns.length}:${options.alpha}:${options.threshold}:${options.higherIsWorse}`;
+            changeFromPrevious = cachedForList(key, [...previousRuns, ...versionRuns], () => {
+                const comparison = compareValues(
+                    pooledRunSamples(previousRuns),
+                    pooledRunSamples(versionRuns),
+                    { ...options, basis: 'samples' }
+                );
+                return {
+                    relativeChange: comparison.relativeChange,
+                    pValue: comparison.mannWhitney?.pValue ?? NaN,
+                    verdict: comparison.verdict,
+                };
+            });
+        }
+
+        points.push({
+            version,
+            trialCount: trials.length,
+            sampleCount: trials.reduce((sum, trial) => sum + getTrialSamples(trial).length, 0),
+            summary,
+            changeFromPrevious,
+        });
+        previous = { versionId: version.id, runs: versionRuns };
+    });
+
+    return points;
+};
+
+export const isSignificantChange = (point: TrendPoint): boolean =>
+    point.changeFromPrevious?.verdict === 'regression' || point.changeFromPrevious?.verdict === 'improvement';
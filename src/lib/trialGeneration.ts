@@ -1,47 +1,69 @@
 // trialGeneration.ts
 import * as id from "../lib/id";
-import { Bucket, Trial } from '@/types';
+import { Bucket, GenerationProfile, Trial } from '@/types';
 import { generateSeedFromId, xorshift } from '@/lib/random';
+import { bucketProbability, createSampler, distributionCdf, DistributionSpec, distributionDomain, validateDistributionSpec } from '@/lib/distributions';
+import { rebinSamples, summarizeSamples } from '@/lib/binning';
 import { useCallback } from "react";
 
-interface TrialGenerationConfig {
-    mean: number;
-    stdDev: number;
-    tailShift: number;
-    tailProbability: number;
+// An experiment's generation profile plus how many samples each trial draws
+export interface TrialGenerationConfig extends GenerationProfile {
     samplesPerTrial: number;
 }
 
-const erf = (x: number): number => {
-    const sign = Math.sign(x);
-    x = Math.abs(x);
-    const t = 1.0 / (1.0 + 0.3275911 * x);
-    const y = 1.0 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
-    return sign * y;
+export const MAX_SAMPLES_PER_TRIAL = 1_000_000;
+
+export const DEFAULT_GENERATION_CONFIG: TrialGenerationConfig = {
+    mean: 100,
+    stdDev: 10,
+    tailShift: 3,
+    tailProbability: 0.01,
+    samplesPerTrial: 20,
 };
 
-const generateSample = (
-    rng: () => number,
-    mean: number,
-    stdDev: number,
-    tailShift: number,
-    tailProbability: number
-): number => {
-    const u1 = rng();
-    const u2 = rng();
-    if (u1 < tailProbability) {
-        const z = Math.sqrt(-2 * Math.log(u2)) * Math.cos(2 * Math.PI * rng());
-        return mean + tailShift * stdDev + z * stdDev;
-    } else {
-        const z = Math.sqrt(-2 * Math.log(u2)) * Math.cos(2 * Math.PI * rng());
-        return mean + z * stdDev;
+export type GenerationConfigErrors = Partial<Record<keyof TrialGenerationConfig, string>>;
+
+export const validateGenerationConfig = (config: TrialGenerationConfig): GenerationConfigErrors => {
+    const errors: GenerationConfigErrors = {};
+
+    if (!Number.isFinite(config.mean)) {
+        errors.mean = 'Mean must be a number';
+    }
+    if (!Number.isFinite(config.stdDev) || config.stdDev <= 0) {
+        errors.stdDev = 'Standard deviation must be greater than 0';
+    }
+    if (!Number.isFinite(config.tailShift) || config.tailShift < 0) {
+        errors.tailShift = 'Tail shift must be 0 or greater';
+    }
+    if (!Number.isFinite(config.tailProbability) || config.tailProbability < 0 || config.tailProbability > 1) {
+        errors.tailProbability = 'Tail probability must be between 0 and 1';
     }
+    if (!Number.isInteger(config.samplesPerTrial) || config.samplesPerTrial < 1 || config.samplesPerTrial > MAX_SAMPLES_PER_TRIAL) {
+        errors.samplesPerTrial = `Samples per trial must be a whole number from 1 to ${MAX_SAMPLES_PER_TRIAL}`;
+    }
+    if (config.distribution) {
+        const distributionErrors = validateDistributionSpec(config.distribution);
+        if (distributionErrors.length > 0) {
+            errors.distribution = distributionErrors.join('; ');
+        }
+    }
+
+    return errors;
 };
 
-const calculateBucketsAndDomain = (mean: number, stdDev: number, tailShift: number,
-    tailProbability: number, samplesPerTrial: number) => {
-    const minX = mean - 4 * stdDev;
-    const maxX = mean + (tailShift + 2) * stdDev;
+export const resolveDistribution = (config: GenerationProfile): DistributionSpec =>
+    config.distribution ?? {
+        id: 'normal-tail',
+        params: {
+            mean: config.mean,
+            stdDev: config.stdDev,
+            tailShift: config.tailShift,
+            tailProbability: config.tailProbability,
+        }
+    };
+
+export const calculateBucketsAndDomain = (distribution: DistributionSpec, samplesPerTrial: number) => {
+    const [minX, maxX] = distributionDomain(distribution);
     const domain: [number, number] = [minX, maxX];
     const numBuckets = 30;
     const bucketSize = (maxX - minX) / numBuckets;
@@ -50,19 +72,7 @@ const calculateBucketsAndDomain = (mean: number, stdDev: number, tailShift: numb
         const start = minX + i * bucketSize;
         const end = minX + (i + 1) * bucketSize;
         const centerValue = (start + end) / 2;
-
-        const mainProb = (1 - tailProbability) * (
-            (erf((end - mean) / (Math.sqrt(2) * stdDev)) -
-                erf((start - mean) / (Math.sqrt(2) * stdDev))) / 2
-        );
-
-        const tailProb = tailProbability * (
-            (erf((end - (mean + tailShift * stdDev)) / (Math.sqrt(2) * stdDev)) -
-                erf((start - (mean + tailShift * stdDev)) / (Math.sqrt(2) * stdDev))) / 2
-        );
-
-        const totalProb = mainProb + tailProb;
-        const expected = totalProb * samplesPerTrial;
+        const expected = bucketProbability(distribution, start, end) * samplesPerTrial;
 
         return {
             start,
@@ -76,10 +86,28 @@ const calculateBucketsAndDomain = (mean: number, stdDev: number, tailShift: numb
     return { domain, buckets, bucketSize };
 };
 
+// Expected counts for any bucket layout under the model. Underflow/overflow buckets
+// get the whole tail beyond the regular buckets, not just the span of their samples.
+export const withExpectedCounts = (buckets: Bucket[], distribution: DistributionSpec, samplesPerTrial: number): Bucket[] =>
+    buckets.map(bucket => {
+        const probability = bucket.kind === 'underflow'
+            ? distributionCdf(distribution, bucket.end)
+            : bucket.kind === 'overflow'
+                ? 1 - distributionCdf(distribution, bucket.start)
+                : bucketProbability(distribution, bucket.start, bucket.end);
+        return { ...bucket, expected: probability * samplesPerTrial };
+    });
+
+// ID generateTrial assigns when given xorshift(seed), computed without generating the samples
+export const seededTrialId = (seed: number): string => id.generateId({ random: xorshift(seed) });
+
+// With a seeded `random`, the trial ID and every sample are drawn from that stream so the
+// trial is fully reproducible; without one, the ID is random and seeds the samples
 export function generateTrial(
     config: TrialGenerationConfig,
     targetVersionId: string,
-    overrides: Partial<Trial> = {}
+    overrides: Partial<Trial> = {},
+    random?: () => number
 ): Trial {
     const { mean, stdDev, tailShift, tailProbability, samplesPerTrial } = config;
     
@@ -92,37 +120,28 @@ export function generateTrial(
     }
     
     // Always use the word-based ID generator for consistent, readable IDs
-    const trialId = id.generateId();
+    const trialId = id.generateId({ random });
     
+    const distribution = resolveDistribution(config);
+    const sample = createSampler(distribution);
+
     console.log('Generating trial with parameters:', {
-        mean, stdDev, tailShift, tailProbability, samplesPerTrial, 
+        distribution, samplesPerTrial,
         targetVersionId, trialId
     });
 
-    const { domain, buckets, bucketSize } = calculateBucketsAndDomain(
-        mean,
-        stdDev,
-        tailShift,
-        tailProbability,
-        samplesPerTrial
-    );
+    const { buckets } = calculateBucketsAndDomain(distribution, samplesPerTrial);
 
-    const rng = xorshift(generateSeedFromId(trialId));
-    const newBuckets = buckets.map(bucket => ({ ...bucket, observed: 0 }));
+    const rng = random ?? xorshift(generateSeedFromId(trialId));
 
     const samples = Array(samplesPerTrial).fill(0).map(() =>
-        generateSample(rng, mean, stdDev, tailShift, tailProbability)
+        sample(rng)
     );
 
-    const maxValue = Math.max(...samples);
-    const sampleMean = samples.reduce((a, b) => a + b, 0) / samples.length;
+    const { maxValue, sampleMean } = summarizeSamples(samples);
 
-    samples.forEach(value => {
-        const bucketIndex = Math.floor((value - domain[0]) / bucketSize);
-        if (bucketIndex >= 0 && bucketIndex < newBuckets.length) {
-            newBuckets[bucketIndex].observed++;
-        }
-    });
+    // Samples beyond the model's domain go to underflow/overflow buckets rather than being dropped
+    const newBuckets = withExpectedCounts(rebinSamples(samples, buckets), distribution, samplesPerTrial);
 
     // Return the trial data (using the old targetVersionId field for backwards compatibility)
     const trial: any = {
@@ -132,6 +151,7 @@ export function generateTrial(
         maxValue,
         timestamp: overrides.timestamp || Date.now(),
         sampleMean,
+        samples,
     };
     
     // For backwards compatibility
@@ -144,7 +164,7 @@ export function generateTrial(
 // Hook for use in React components
 export const useTrialGeneration = (config: TrialGenerationConfig) => {
     const generateTrialWithConfig = useCallback(
-        (targetVersionId: string) => {
+        (targetVersionId: string, random?: () => number) => {
             console.log('Generating trial with config:', { config, targetVersionId });
             
             // Check if we have all required fields before passing to generateTrial
@@ -157,7 +177,7 @@ export const useTrialGeneration = (config: TrialGenerationConfig) => {
                 throw new Error('Invalid trial generation configuration');
             }
             
-            return generateTrial(config, targetVersionId);
+            return generateTrial(config, targetVersionId, {}, random);
         },
         [config]
     );
@@ -0,0 +1,124 @@
+// urlState.ts
+import { GenerationProfile } from '@/types';
+import { DistributionId, DistributionSpec } from './distributions';
+import { parseGenerationProfile } from './profiles';
+
+// Everything needed to reopen a specific view; every field is optional in the URL
+export interface UrlState {
+    seed?: number;
+    versionId?: string;
+    experimentId?: string;
+    runId?: string;
+    trialId?: string;
+    samplesPerTrial?: number;
+    // Profile of the current experiment
+    profile?: GenerationProfile;
+}
+
+const PARAMS = {
+    seed: 'seed',
+    versionId: 'v',
+    experimentId: 'e',
+    runId: 'r',
+    trialId: 't',
+    samplesPerTrial: 'n',
+    mean: 'mean',
+    stdDev: 'sd',
+    tailShift: 'tailShift',
+    tailProbability: 'tailP',
+    distribution: 'dist',
+} as const;
+
+const readNumber = (params: URLSearchParams, key: string): number | undefined => {
+    const raw = params.get(key);
+    if (raw === null || raw.trim() === '') return undefined;
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : undefined;
+};
+
+// Distributions are written as "lognormal(median:100,sigma:0.25)"
+const encodeDistribution = ({ id, params, shift, scale }: DistributionSpec): string => {
+    const entries = Object.entries({ ...params, ...(shift !== undefined ? { shift } : {}), ...(scale !== undefined ? { scale } : {}) });
+    return `${id}(${entries.map(([key, value]) => `${key}:${value}`).join(',')})`;
+};
+
+const decodeDistribution = (raw: string): DistributionSpec | undefined => {
+    const match = /^([a-z-]+)\((.*)\)$/.exec(raw);
+    if (!match) return undefined;
+
+    const values: Record<string, number> = {};
+    for (const entry of match[2].split(',').filter(Boolean)) {
+        const [key, value] = entry.split(':');
+        const number = Number(value);
+        if (!key || !Number.isFinite(number)) return undefined;
+        values[key] = number;
+    }
+    const { shift, scale, ...params } = values;
+    return { id: match[1] as DistributionId, params, shift, scale };
+};
+
+const readProfile = (params: URLSearchParams): GenerationProfile | undefined => {
+    const distribution = params.get(PARAMS.distribution);
+    return parseGenerationProfile({
+        mean: readNumber(params, PARAMS.mean),
+        stdDev: readNumber(params, PARAMS.stdDev),
+        tailShift: readNumber(params, PARAMS.tailShift),
+        tailProbability: readNumber(params, PARAMS.tailProbability),
+        distribution: distribution ? decodeDistribution(distribution) : undefined,
+    });
+};
+
+export const readUrlState = (search: string = window.location.search): UrlState => {
+    const params = new URLSearchParams(search);
+    const seed = readNumber(params, PARAMS.seed);
+    const samplesPerTrial = readNumber(params, PARAMS.samplesPerTrial);
+
+    return {
+        seed: seed !== undefined && Number.isInteger(seed) ? seed : undefined,
+        versionId: params.get(PARAMS.versionId) ?? undefined,
+        experimentId: params.get(PARAMS.experimentId) ?? undefined,
+        runId: params.get(PARAMS.runId) ?? undefined,
+        trialId: params.get(PARAMS.trialId) ?? undefined,
+        samplesPerTrial: samplesPerTrial !== undefined && Number.isInteger(samplesPerTrial) ? samplesPerTrial : undefined,
+        profile: readProfile(params),
+    };
+};
+
+const setParam = (params: URLSearchParams, key: string, value: string | number | undefined) => {
+    if (value === undefined) {
+        params.delete(key);
+    } else {
+        params.set(key, String(value));
+    }
+};
+
+// Merges `changes` into the current URL; keys present with an undefined value are removed.
+// Several components own different keys, so nothing outside `changes` is touched.
+export const writeUrlState = (changes: UrlState, mode: 'push' | 'replace' = 'replace') => {
+    const params = new URLSearchParams(window.location.search);
+
+    if ('seed' in changes) setParam(params, PARAMS.seed, changes.seed);
+    if ('versionId' in changes) setParam(params, PARAMS.versionId, changes.versionId);
+    if ('experimentId' in changes) setParam(params, PARAMS.experimentId, changes.experimentId);
+    if ('runId' in changes) setParam(params, PARAMS.runId, changes.runId);
+    if ('trialId' in changes) setParam(params, PARAMS.trialId, changes.trialId);
+    if ('samplesPerTrial' in changes) setParam(params, PARAMS.samplesPerTrial, changes.samplesPerTrial);
+    if ('profile' in changes) {
+        const { profile } = changes;
+        setParam(params, PARAMS.mean, profile?.mean);
+        setParam(params, PARAMS.stdDev, profile?.stdDev);
+        setParam(params, PARAMS.tailShift, profile?.tailShift);
+        setParam(params, PARAMS.tailProbability, profile?.tailProbability);
+        setParam(params, PARAMS.distribution, profile?.distribution ? encodeDistribution(profile.distribution) : undefined);
+    }
+
+    const search = params.toString();
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`;
+    if (url === `${window.location.pathname}${window.location.search}${window.location.hash}`) return;
+
+    if (mode === 'push') {
+        window.history.pushState(null, '', url);
+    } else {
+        window.history.replaceState(null, '', url);
+    }
+};
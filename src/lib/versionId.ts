@@ -1,28 +1,30 @@
 // utils/versionId.ts
+import { deriveSeed, xorshift } from './random';
 
 // Generate a random hex string of specified length
-const generateShortSha = (length: number = 7): string => {
+const generateShortSha = (length: number = 7, random: () => number = Math.random): string => {
     const chars = '0123456789abcdef';
     return Array.from(
         { length },
-        () => chars[Math.floor(Math.random() * chars.length)]
+        () => chars[Math.floor(random() * chars.length)]
     ).join('');
 };
 
 export interface VersionIdOptions {
     tag?: string;       // Optional semantic version tag
     length?: number;    // Length of the short SHA (default: 7)
+    random?: () => number;  // Seeded generator for reproducible IDs (default: Math.random)
 }
 
 // Validates semantic version format
-const isValidSemanticVersion = (version: string): boolean => {
+export const isValidSemanticVersion = (version: string): boolean => {
     const pattern = /^\d+\.\d+(\.\d+)?$/;
     return pattern.test(version);
 };
 
 export const generateVersionId = (options: VersionIdOptions = {}): string => {
-    const { tag, length = 7 } = options;
-    const sha = generateShortSha(length);
+    const { tag, length = 7, random } = options;
+    const sha = generateShortSha(length, random);
 
     if (tag) {
         if (!isValidSemanticVersion(tag)) {
@@ -34,6 +36,20 @@ export const generateVersionId = (options: VersionIdOptions = {}): string => {
     return sha;
 };
 
+// Version ID for a version created in the app. The SHA comes from a stream keyed by the app seed
+// and the version count, skipping SHAs already in use, so the same seed and actions give the
+// same IDs (and run IDs and trial seeds built from them).
+export const nextVersionId = (existingIds: string[], seed: number, tag?: string): string => {
+    const takenShas = new Set(existingIds.map(id => parseVersionId(id).sha));
+    let index = existingIds.length;
+    let id = generateVersionId({ tag, random: xorshift(deriveSeed(seed, 'version', index)) });
+    while (takenShas.has(parseVersionId(id).sha)) {
+        index++;
+        id = generateVersionId({ tag, random: xorshift(deriveSeed(seed, 'version', index)) });
+    }
+    return id;
+};
+
 // Parse a version ID back into its components
 export const parseVersionId = (id: string): { sha: string; tag?: string } => {
     const parts = id.split('@');
@@ -1,3 +1,5 @@
+import type { DistributionSpec } from './lib/distributions';
+
 
 interface Bucket {
     start: number;
@@ -5,6 +7,34 @@ interface Bucket {
     expected: number;
     observed: number;
     value: number;
+    // Catch-all buckets for samples below/above the regular buckets; they span from the
+    // extreme sample to the nearest regular edge
+    kind?: 'underflow' | 'overflow';
+}
+
+// Where a trial's buckets came from when they were recorded as a histogram rather than
+// binned from samples. HdrHistogram buckets are log-linear: widths double every power of two.
+interface HdrBucketSource {
+    kind: 'hdr';
+    significantDigits: number;
+    lowestDiscernibleValue: number;
+    conversionRatio: number;   // Bucket edges are already scaled by this; 1 for integer histograms
+}
+
+// How samples are generated for an experiment. The normal-with-shifted-tail fields
+// are used unless `distribution` picks a different model.
+interface GenerationProfile {
+    mean: number;
+    stdDev: number;
+    tailShift: number;
+    tailProbability: number;
+    distribution?: DistributionSpec;
+}
+
+// Optional per-version adjustment applied on top of every experiment's profile
+interface VersionPerturbation {
+    meanShift: number;     // Added to every sample
+    stdDevScale: number;   // Multiplies the spread around the distribution's center
 }
 
 interface Experiment {
@@ -18,12 +48,21 @@ interface Experiment {
         networkTraffic?: number;
     };
     color: string;         // For visual identification in the UI
+    profile?: GenerationProfile;  // Falls back to one derived from `parameters`
 }
 
 interface TargetVersion {
     id: string;
     name: string;
     timestamp: number;
+    perturbation?: VersionPerturbation;
+}
+
+// Where and how a run was recorded; every field is free-form
+interface RunMetadata {
+    host?: string;
+    commit?: string;
+    notes?: string;
 }
 
 interface ExperimentRun {
@@ -31,7 +70,8 @@ interface ExperimentRun {
     versionId: string;     // Reference to the target version
     experimentId: string;  // Reference to the experiment definition
     trials: Trial[];
-    timestamp: number;
+    timestamp: number;     // When the run was started
+    metadata?: RunMetadata;
 }
 
 interface Trial {
@@ -41,12 +81,18 @@ interface Trial {
     maxValue: number;
     timestamp: number;
     sampleMean: number;
+    samples?: number[];   // Raw samples; when present, buckets are derived from these on demand
+    bucketSource?: HdrBucketSource;  // Set for trials imported as histograms, which have no samples
 }
 
 export type {
     Bucket,
+    HdrBucketSource,
+    GenerationProfile,
+    VersionPerturbation,
     Experiment,
     TargetVersion,
+    RunMetadata,
     ExperimentRun,
     Trial,
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+// trialWorker.ts
+// Generates and bins trials off the main thread
+import { generateTrial } from '@/lib/trialGeneration';
+import { xorshift } from '@/lib/random';
+import { TrialWorkerRequest, TrialWorkerResponse } from './trialWorkerProtocol';
+
+const respond = (response: TrialWorkerResponse) => {
+    self.postMessage(response);
+};
+
+self.onmessage = (event: MessageEvent<TrialWorkerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+        case 'generate': {
+            try {
+                const trial = generateTrial(request.config, request.targetVersionId, {}, xorshift(request.seed));
+                respond({ type: 'trial', requestId: request.requestId, trial });
+            } catch (error) {
+                respond({
+                    type: 'error',
+                    requestId: request.requestId,
+                    message: error instanceof Error ? error.message : String(error)
+                });
+            }
+            break;
+        }
+    }
+};
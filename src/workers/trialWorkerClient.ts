@@ -0,0 +1,67 @@
+// trialWorkerClient.ts
+import { Trial } from '@/types';
+import { TrialGenerationConfig, generateTrial } from '@/lib/trialGeneration';
+import { xorshift } from '@/lib/random';
+import { TrialWorkerRequest, TrialWorkerResponse } from './trialWorkerProtocol';
+
+export interface TrialWorkerClient {
+    generate: (config: TrialGenerationConfig, targetVersionId: string, seed: number) => Promise<Trial>;
+    terminate: () => void;
+}
+
+interface PendingRequest {
+    resolve: (trial: Trial) => void;
+    reject: (error: Error) => void;
+}
+
+// Same results on the main thread, for environments without module workers
+const createInlineClient = (): TrialWorkerClient => ({
+    generate: async (config, targetVersionId, seed) =>
+        generateTrial(config, targetVersionId, {}, xorshift(seed)),
+    terminate: () => {},
+});
+
+export const createTrialWorkerClient = (): TrialWorkerClient => {
+    if (typeof Worker === 'undefined') {
+        console.warn('⚠️ Web Workers unavailable, generating trials on the main thread');
+        return createInlineClient();
+    }
+
+    const worker = new Worker(new URL('./trialWorker.ts', import.meta.url), { type: 'module' });
+    const pending = new Map<number, PendingRequest>();
+    let nextRequestId = 1;
+
+    worker.onmessage = (event: MessageEvent<TrialWorkerResponse>) => {
+        const response = event.data;
+        const request = pending.get(response.requestId);
+        if (!request) return;
+        pending.delete(response.requestId);
+
+        if (response.type === 'trial') {
+            request.resolve(response.trial);
+        } else {
+            request.reject(new Error(response.message));
+        }
+    };
+
+    // A crashed worker can't answer anything that is still outstanding
+    worker.onerror = (event: ErrorEvent) => {
+        console.error('❌ Trial worker failed:', event.message);
+        pending.forEach(request => request.reject(new Error(`Trial worker failed: ${event.message}`)));
+        pending.clear();
+    };
+
+    return {
+        generate: (config, targetVersionId, seed) => new Promise<Trial>((resolve, reject) => {
+            const requestId = nextRequestId++;
+            pending.set(requestId, { resolve, reject });
+            const request: TrialWorkerRequest = { type: 'generate', requestId, config, targetVersionId, seed };
+            worker.postMessage(request);
+        }),
+        terminate: () => {
+            worker.terminate();
+            pending.forEach(request => request.reject(new Error('Trial worker terminated')));
+            pending.clear();
+        },
+    };
+};
@@ -0,0 +1,30 @@
+// trialWorkerProtocol.ts
+import { Trial } from '@/types';
+import { TrialGenerationConfig } from '@/lib/trialGeneration';
+
+// Main thread -> worker
+export interface GenerateTrialRequest {
+    type: 'generate';
+    requestId: number;
+    config: TrialGenerationConfig;
+    targetVersionId: string;
+    // Seeds the trial's RNG stream, so the worker reproduces main-thread generation exactly
+    seed: number;
+}
+
+export type TrialWorkerRequest = GenerateTrialRequest;
+
+// Worker -> main thread; one message per trial as soon as it is ready
+export interface TrialGeneratedResponse {
+    type: 'trial';
+    requestId: number;
+    trial: Trial;
+}
+
+export interface TrialErrorResponse {
+    type: 'error';
+    requestId: number;
+    message: string;
+}
+
+export type TrialWorkerResponse = TrialGeneratedResponse | TrialErrorResponse;